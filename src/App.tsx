@@ -1,5 +1,5 @@
-import { useEffect, useRef, useState } from 'react';
-import { Play, Pause, SkipForward, SkipBack, BookOpen, Headphones, Volume2, VolumeX } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, Play, Pause, SkipForward, SkipBack, BookOpen, Headphones, Volume2, VolumeX, RotateCcw, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Select,
@@ -9,39 +9,68 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Slider } from '@/components/ui/slider';
+import { Combobox, ComboboxOption } from '@/components/ui/combobox';
+import { BookmarksPanel } from '@/components/BookmarksPanel';
+import { LoopControls, LoopDraft } from '@/components/LoopControls';
+import { AyahControls } from '@/components/AyahControls';
+import { SleepTimerControl } from '@/components/SleepTimerControl';
+import { PlaybackRateControl } from '@/components/PlaybackRateControl';
+import { PlaylistsPanel } from '@/components/PlaylistsPanel';
+import { DownloadsPanel } from '@/components/DownloadsPanel';
+import { RecentlyPlayedPanel } from '@/components/RecentlyPlayedPanel';
+import { RadioPanel } from '@/components/RadioPanel';
+import { TafsirControls } from '@/components/TafsirControls';
+import { QuranReader } from '@/components/QuranReader';
+import { NotificationSettingsPanel } from '@/components/NotificationSettingsPanel';
+import { useAyahTimings } from '@/hooks/useAyahTimings';
+import { useAlternateNames } from '@/hooks/useAlternateNames';
+import { useMoshafTypes } from '@/hooks/useMoshafTypes';
+import { useTafsir } from '@/hooks/useTafsir';
+import { usePlayerShortcuts } from '@/hooks/usePlayerShortcuts';
 import { storage } from '@/lib/storage';
+import { getCached } from '@/lib/metadataCache';
+import { mp3quranApi, Moshaf, Reciter, Surah } from '@/lib/mp3quranApi';
+import { formatTime } from '@/lib/utils';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { Language } from '@/lib/i18n';
-import { audioService } from '@/lib/audioService';
-
-interface Moshaf {
-  id: number;
-  name: string;
-  server: string;
-  surah_total: number;
-  moshaf_type: number;
-  surah_list: string;
-}
-
-interface Reciter {
-  id: number;
-  name: string;
-  letter: string;
-  date: string;
-  moshaf: Moshaf[];
-}
-
-interface Surah {
-  id: number;
-  name: string;
-  start_page: number;
-  end_page: number;
-  makkia: number;
-  type: number;
+import {
+  AudioLoop,
+  audioService,
+  buildSurahUrl,
+  QueueItem,
+  RadioStation,
+  SleepTimerState,
+  TafsirInterleaveSettings,
+} from '@/lib/audioService';
+import { clearPosition, getSavedPosition, MIN_RESUME_SECONDS } from '@/lib/playbackPositions';
+import { Bookmark } from '@/lib/bookmarks';
+import { Playlist, playlistToQueue } from '@/lib/playlists';
+import { getFavoriteReciters, toggleFavoriteReciter } from '@/lib/favorites';
+import { RecentEntry } from '@/lib/recentlyPlayed';
+import {
+  EMPTY_RECITER_FILTER,
+  filterReciters,
+  getAvailableRiwayat,
+  getReciterFilter,
+  getRecitationTypes,
+  indexMoshafTypes,
+  isFilterActive,
+  moshafMatchesFilter,
+  ReciterFilter,
+  saveReciterFilter,
+} from '@/lib/reciterFilters';
+
+// Surahs the moshaf has recordings for; surah_list is a comma-separated list of surah ids
+// (treated as complete when missing so older data still plays)
+function getAvailableSurahs(moshaf: Moshaf | null, surahs: Surah[]): Surah[] {
+  if (!moshaf?.surah_list) return surahs;
+  const ids = new Set(
+    moshaf.surah_list.split(',').map((id) => parseInt(id.trim())).filter((id) => !isNaN(id))
+  );
+  return ids.size > 0 ? surahs.filter((s) => ids.has(s.id)) : surahs;
 }
 
-const API_BASE = 'https://www.mp3quran.net/api/v3';
-
 function App() {
   const { language, setLanguage, t, isLanguageLoaded } = useLanguage();
   const direction = language === 'ar' ? 'rtl' : 'ltr';
@@ -50,44 +79,142 @@ function App() {
   const [selectedReciter, setSelectedReciter] = useState<Reciter | null>(null);
   const [selectedMoshaf, setSelectedMoshaf] = useState<Moshaf | null>(null);
   const [selectedSurah, setSelectedSurah] = useState<Surah | null>(null);
-  const [currentSurahIndex, setCurrentSurahIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isSeeking, setIsSeeking] = useState(false);
   const [volume, setVolume] = useState(1.0);
   const [isMuted, setIsMuted] = useState(false);
+  const [resumePosition, setResumePosition] = useState<number | null>(null);
+  const [loop, setLoop] = useState<AudioLoop | null>(null);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimerState | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [queueIndex, setQueueIndex] = useState(-1);
+  const [queueLength, setQueueLength] = useState(0);
+  const [currentItem, setCurrentItem] = useState<QueueItem | null>(null);
+  const [loopDraft, setLoopDraft] = useState<LoopDraft>({ start: null, end: null });
+  const [favoriteReciters, setFavoriteReciters] = useState<number[]>([]);
+  const [reciterFilter, setReciterFilter] = useState<ReciterFilter>(EMPTY_RECITER_FILTER);
+  const [activeTab, setActiveTab] = useState<'recitations' | 'radio'>('recitations');
+  // A live station replaces the queue; the recitation player shows as stopped meanwhile
+  const [station, setStation] = useState<RadioStation | null>(null);
+  const [tafsirInterleave, setTafsirInterleave] = useState<TafsirInterleaveSettings | null>(null);
+  const ayahTimings = useAyahTimings(selectedMoshaf, selectedSurah?.id ?? null);
+  const tafsir = useTafsir(language, selectedSurah?.id ?? null);
+  const playingTafsir = currentItem?.tafsir ?? null;
+  // Highlighting only follows the recitation when the selected surah is the one playing
+  const isSelectedRecitationPlaying = !!currentItem && !playingTafsir && !station &&
+    currentItem.moshafId === selectedMoshaf?.id && currentItem.surahId === selectedSurah?.id;
+  const availableSurahs = useMemo(() => getAvailableSurahs(selectedMoshaf, surahs), [selectedMoshaf, surahs]);
+  const isSelectedSurahAvailable = !selectedSurah || availableSurahs.some(s => s.id === selectedSurah.id);
+  // Neighbouring surahs in this moshaf, skipping ones it doesn't include
+  const nextAvailableSurah = selectedSurah ? availableSurahs.find(s => s.id > selectedSurah.id) ?? null : null;
+  const previousAvailableSurah = selectedSurah ? [...availableSurahs].reverse().find(s => s.id < selectedSurah.id) ?? null : null;
+  const alternateNames = useAlternateNames(language, reciters.length > 0 && surahs.length > 0);
+  // Picker options also match names in the other language (e.g. "kahf" while browsing in Arabic)
+  const { moshafTypes, riwayat } = useMoshafTypes(language);
+  const moshafTypeIndex = useMemo(() => indexMoshafTypes(moshafTypes), [moshafTypes]);
+  const riwayaOptions = useMemo(() => getAvailableRiwayat(riwayat, moshafTypes), [riwayat, moshafTypes]);
+  const recitationTypeOptions = useMemo(() => getRecitationTypes(moshafTypes), [moshafTypes]);
+  const filteredReciters = useMemo(
+    () => filterReciters(reciters, reciterFilter, moshafTypeIndex),
+    [reciters, reciterFilter, moshafTypeIndex]
+  );
+  // Favourite reciters are pinned to the top, the rest grouped by their first letter
+  // The selected reciter stays listed even when the filters exclude it
+  const reciterOptions = useMemo<ComboboxOption[]>(() => {
+    const favorites = new Set(favoriteReciters);
+    const listed = selectedReciter && !filteredReciters.includes(selectedReciter)
+      ? [selectedReciter, ...filteredReciters]
+      : filteredReciters;
+    const byLetter = listed
+      .filter((reciter) => !favorites.has(reciter.id))
+      .sort((a, b) => (a.letter || '').localeCompare(b.letter || '', language));
+    const toOption = (reciter: Reciter, group: string | undefined): ComboboxOption => ({
+      value: reciter.id.toString(),
+      label: reciter.name,
+      keywords: alternateNames.reciters[reciter.id] ? [alternateNames.reciters[reciter.id]] : undefined,
+      icon: favorites.has(reciter.id)
+        ? <Star className="h-3.5 w-3.5 shrink-0 fill-amber-400 text-amber-400" aria-hidden="true" />
+        : undefined,
+      group,
+    });
+    return [
+      ...listed.filter((reciter) => favorites.has(reciter.id)).map((reciter) => toOption(reciter, t.favoriteReciters)),
+      ...byLetter.map((reciter) => toOption(reciter, reciter.letter || undefined)),
+    ];
+  }, [filteredReciters, selectedReciter, favoriteReciters, alternateNames, language, t]);
+  const isSelectedReciterFavorite = !!selectedReciter && favoriteReciters.includes(selectedReciter.id);
+  const surahOptions = useMemo<ComboboxOption[]>(() => surahs.map((surah) => {
+    const isAvailable = availableSurahs.includes(surah);
+    return {
+      value: surah.id.toString(),
+      label: `${surah.id}. ${surah.name}`,
+      number: surah.id,
+      keywords: alternateNames.surahs[surah.id] ? [alternateNames.surahs[surah.id]] : undefined,
+      hint: isAvailable ? undefined : t.notInMoshaf,
+      disabled: !isAvailable,
+    };
+  }), [surahs, availableSurahs, alternateNames, t]);
   const previousVolumeRef = useRef<number>(1.0);
-  const progressRef = useRef<HTMLDivElement>(null);
-  const volumeRef = useRef<HTMLDivElement>(null);
 
-  // Fetch reciters
-  const fetchReciters = async (lang: Language = language) => {
+  // Background refreshes only apply if the language hasn't changed since
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  // Requests for the current language; aborted when the language changes
+  const metadataRequestsRef = useRef<AbortController>(new AbortController());
+
+  // Fetch reciters (from the per-language cache when available, refreshed in the background once stale)
+  const fetchReciters = useCallback(async (lang: Language = language) => {
+    const { signal } = metadataRequestsRef.current;
     try {
-      const response = await fetch(`${API_BASE}/reciters?language=${lang}`);
-      const data = await response.json();
-      if (data.reciters) {
-        console.log('Fetched reciters:', data.reciters.length);
-        setReciters(data.reciters);
-      }
+      const list = await getCached(
+        `reciters:${lang}`,
+        () => mp3quranApi.getReciters(lang, { signal }),
+        {
+          onRevalidate: (fresh) => {
+            if (languageRef.current === lang) setReciters(fresh);
+          },
+        }
+      );
+      console.log('Loaded reciters:', list.length);
+      setReciters(list);
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error fetching reciters:', error);
+      setLoadFailed(true);
     }
-  };
+  }, [language]);
 
   // Fetch surahs
-  const fetchSurahs = async (lang: Language = language) => {
+  const fetchSurahs = useCallback(async (lang: Language = language) => {
+    const { signal } = metadataRequestsRef.current;
     try {
-      const response = await fetch(`${API_BASE}/suwar?language=${lang}`);
-      const data = await response.json();
-      if (data.suwar) {
-        setSurahs(data.suwar);
-      }
+      const list = await getCached(
+        `suwar:${lang}`,
+        () => mp3quranApi.getSuwar(lang, { signal }),
+        {
+          onRevalidate: (fresh) => {
+            if (languageRef.current === lang) setSurahs(fresh);
+          },
+        }
+      );
+      setSurahs(list);
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error fetching surahs:', error);
+      setLoadFailed(true);
     }
+  }, [language]);
+
+  // Try the API again after a failed first load
+  const handleRetryLoad = async () => {
+    setLoadFailed(false);
+    await Promise.all([fetchReciters(), fetchSurahs()]);
   };
 
   // Track if this is the initial load to avoid resetting on language restore
@@ -108,13 +235,15 @@ function App() {
     };
     
     loadPreferences();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isLanguageLoaded]); // Intentionally only depend on isLanguageLoaded - language will be correct when this runs
+  }, [isLanguageLoaded, language, fetchReciters, fetchSurahs]);
 
   // Refetch data when language changes (but not on initial load)
   useEffect(() => {
     if (hasLoadedInitialDataRef.current && isLanguageLoaded && prevLanguageRef.current && prevLanguageRef.current !== language) {
-      // Only refetch if language actually changed after initial load
+      // Only refetch if language actually changed after initial load,
+      // dropping any requests still running for the previous language
+      metadataRequestsRef.current.abort();
+      metadataRequestsRef.current = new AbortController();
       fetchReciters(language);
       fetchSurahs(language);
       // Reset selections when language changes (but not on initial load)
@@ -123,7 +252,13 @@ function App() {
       setSelectedSurah(null);
       prevLanguageRef.current = language;
     }
-  }, [language, isLanguageLoaded]);
+  }, [language, isLanguageLoaded, fetchReciters, fetchSurahs]);
+
+  // Load favourite reciters and the reciter filters on mount
+  useEffect(() => {
+    getFavoriteReciters().then(setFavoriteReciters);
+    getReciterFilter().then(setReciterFilter);
+  }, []);
 
   // Load volume preference on mount and sync with audio service
   useEffect(() => {
@@ -148,57 +283,107 @@ function App() {
     loadVolume();
   }, []);
 
+  // Reflect the offscreen queue's current item in the selectors
+  // (the offscreen player advances on its own, even while the panel is closed)
+  const syncWithQueueItem = (item: QueueItem | null) => {
+    if (!item) return;
+    if (selectedSurah?.id === item.surahId && selectedMoshaf?.id === item.moshafId) return;
+
+    const reciter = reciters.find(r => r.id === item.reciterId);
+    const moshaf = reciter?.moshaf.find(m => m.id === item.moshafId);
+    const surahIndex = surahs.findIndex(s => s.id === item.surahId);
+    if (!reciter || !moshaf || surahIndex === -1) return;
+
+    setSelectedReciter(reciter);
+    setSelectedMoshaf(moshaf);
+    setSelectedSurah(surahs[surahIndex]);
+  };
+
   // Listen to audio state updates from offscreen document
   useEffect(() => {
     // Get initial state
     audioService.getState().then((state) => {
-      setIsPlaying(state.isPlaying);
-      setCurrentTime(state.currentTime);
-      setDuration(state.duration);
+      setIsPlaying(state.isPlaying && !state.station);
+      setStation(state.station);
+      if (state.station) setActiveTab('radio');
+      setCurrentTime(state.station ? 0 : state.currentTime);
+      setDuration(state.station ? 0 : state.duration);
       setVolume(state.volume);
       setIsMuted(state.isMuted);
+      setLoop(state.loop);
+      setSleepTimer(state.sleepTimer);
+      setPlaybackRate(state.playbackRate);
+      setQueueIndex(state.queueIndex);
+      setQueueLength(state.queueLength);
+      setCurrentItem(state.currentItem);
+      setTafsirInterleave(state.tafsirInterleave);
       previousVolumeRef.current = state.volume;
+      syncWithQueueItem(state.currentItem);
     });
 
     // Subscribe to updates
     const unsubscribe = audioService.onStateUpdate((state) => {
-      setIsPlaying(state.isPlaying);
+      setIsPlaying(state.isPlaying && !state.station);
+      setStation(state.station);
       if (!isSeeking) {
-        setCurrentTime(state.currentTime);
+        setCurrentTime(state.station ? 0 : state.currentTime);
       }
-      setDuration(state.duration);
+      setDuration(state.station ? 0 : state.duration);
       setVolume(state.volume);
       setIsMuted(state.isMuted);
+      setLoop(state.loop);
+      setSleepTimer(state.sleepTimer);
+      setPlaybackRate(state.playbackRate);
+      setQueueIndex(state.queueIndex);
+      setQueueLength(state.queueLength);
+      setCurrentItem(state.currentItem);
+      setTafsirInterleave(state.tafsirInterleave);
+      syncWithQueueItem(state.currentItem);
     });
 
-    // Listen for audio ended to auto-play next surah
-    const handleMessage = (message: any) => {
-      if (message.type === 'AUDIO_ENDED') {
-        setIsPlaying(false);
-        setCurrentTime(0);
-        // Auto-play next surah if available
-        if (currentSurahIndex < surahs.length - 1 && selectedReciter && selectedMoshaf) {
-          const nextSurah = surahs[currentSurahIndex + 1];
-          setCurrentSurahIndex(currentSurahIndex + 1);
-          setSelectedSurah(nextSurah);
-          savePreferences(selectedReciter.id, selectedMoshaf.id, nextSurah.id);
-          loadAudio(selectedMoshaf, nextSurah);
-        }
-      }
+    return () => {
+      unsubscribe();
     };
+  }, [reciters, surahs, selectedMoshaf, selectedSurah, isSeeking]);
 
-    chrome.runtime.onMessage.addListener(handleMessage);
+  // Offer to resume where this recitation was left off in an earlier session
+  // (an A–B range only applies to the surah it was set on)
+  useEffect(() => {
+    setResumePosition(null);
+    setLoopDraft({ start: null, end: null });
+    if (!selectedMoshaf || !selectedSurah) return;
+
+    let cancelled = false;
+    getSavedPosition(selectedMoshaf.id, selectedSurah.id).then((saved) => {
+      // Nothing to offer if playback is already past the start (e.g. still playing from before)
+      if (cancelled || !saved || audioService.getCurrentState().currentTime >= MIN_RESUME_SECONDS) return;
+      setResumePosition(saved.time);
+    });
 
     return () => {
-      unsubscribe();
-      chrome.runtime.onMessage.removeListener(handleMessage);
+      cancelled = true;
     };
-  }, [currentSurahIndex, surahs, selectedReciter, selectedMoshaf, isSeeking]);
+  }, [selectedMoshaf?.id, selectedSurah?.id]);
+
+  // Hide the offer once playback has moved on (resumed, or started over and kept listening)
+  useEffect(() => {
+    if (resumePosition !== null && currentTime >= MIN_RESUME_SECONDS) {
+      setResumePosition(null);
+    }
+  }, [currentTime, resumePosition]);
 
   // Update preferences when reciters/surahs load
+  // Whatever the offscreen player already has wins over the saved selection: the saved
+  // surah is only queued when the queue is empty, so a running playlist is left alone
   useEffect(() => {
     const loadPreferences = async () => {
       if (reciters.length > 0 && surahs.length > 0 && !selectedReciter) {
+        const state = await audioService.getState();
+        if (state.queueLength > 0) {
+          syncWithQueueItem(state.currentItem);
+          return;
+        }
+
         const result = await storage.get(['reciterId', 'moshafId', 'surahId']);
         if (result.reciterId && result.surahId) {
           const reciter = reciters.find(r => r.id === parseInt(result.reciterId));
@@ -222,10 +407,10 @@ function App() {
             
             if (surah) {
               setSelectedSurah(surah);
-              setCurrentSurahIndex(surahs.findIndex(s => s.id === surah.id));
               
-              if (moshaf) {
-                loadAudio(moshaf, surah);
+              // Loading the surah would stop a live station
+              if (moshaf && !state.station) {
+                loadAudio(reciter, moshaf, surah);
               }
             }
           }
@@ -252,13 +437,14 @@ function App() {
       // Reset moshaf when reciter changes
       setSelectedMoshaf(null);
       
-      // Auto-select first moshaf if available
+      // Auto-select the first moshaf, preferring one that matches the filters
       if (reciter.moshaf && reciter.moshaf.length > 0) {
-        const firstMoshaf = reciter.moshaf[0];
+        const firstMoshaf = reciter.moshaf.find((moshaf) => moshafMatchesFilter(moshaf, reciterFilter, moshafTypeIndex))
+          ?? reciter.moshaf[0];
         setSelectedMoshaf(firstMoshaf);
         if (selectedSurah && firstMoshaf) {
           savePreferences(reciter.id, firstMoshaf.id, selectedSurah.id);
-          await loadAudio(firstMoshaf, selectedSurah);
+          await loadAudio(reciter, firstMoshaf, selectedSurah);
         }
       }
     } else {
@@ -266,6 +452,13 @@ function App() {
     }
   };
 
+  // Narrow the reciter list; 'all' clears a filter
+  const handleReciterFilterChange = (key: keyof ReciterFilter, value: string) => {
+    const updated = { ...reciterFilter, [key]: value === 'all' ? null : parseInt(value) };
+    setReciterFilter(updated);
+    saveReciterFilter(updated);
+  };
+
   // Handle moshaf selection
   const handleMoshafChange = async (moshafId: string) => {
     if (!selectedReciter) return;
@@ -275,7 +468,7 @@ function App() {
       setSelectedMoshaf(moshaf);
       if (selectedSurah) {
         savePreferences(selectedReciter.id, moshaf.id, selectedSurah.id);
-        await loadAudio(moshaf, selectedSurah);
+        await loadAudio(selectedReciter, moshaf, selectedSurah);
       }
     }
   };
@@ -285,14 +478,13 @@ function App() {
     const surah = surahs.find(s => s.id === parseInt(surahId));
     if (surah && selectedReciter && selectedMoshaf) {
       setSelectedSurah(surah);
-      setCurrentSurahIndex(surahs.findIndex(s => s.id === surah.id));
       savePreferences(selectedReciter.id, selectedMoshaf.id, surah.id);
-      await loadAudio(selectedMoshaf, surah);
+      await loadAudio(selectedReciter, selectedMoshaf, surah);
     }
   };
 
-  // Load audio
-  const loadAudio = async (moshaf: Moshaf, surah: Surah) => {
+  // Load audio - queues the moshaf's surahs in the offscreen player, starting at surah
+  const loadAudio = async (reciter: Reciter, moshaf: Moshaf, surah: Surah) => {
     if (!moshaf || !surah) {
       console.error('Cannot load audio: missing moshaf or surah', {
         moshaf,
@@ -310,9 +502,23 @@ function App() {
       return;
     }
 
+    // The player shows a notice instead; requesting it would only 404
+    const moshafSurahs = getAvailableSurahs(moshaf, surahs);
+    if (!moshafSurahs.some(s => s.id === surah.id)) {
+      console.warn('Surah not included in moshaf:', { moshafId: moshaf.id, surahId: surah.id });
+      setIsLoadingAudio(false);
+      return;
+    }
+
     setIsLoadingAudio(true);
 
-    const audioUrl = `${moshaf.server}${surah.id.toString().padStart(3, '0')}.mp3`;
+    const audioUrl = buildSurahUrl(moshaf.server, surah.id);
+    const queueItems: QueueItem[] = moshafSurahs.map((s) => ({
+      reciterId: reciter.id,
+      moshafId: moshaf.id,
+      surahId: s.id,
+      url: buildSurahUrl(moshaf.server, s.id),
+    }));
     
     console.log('Loading audio:', {
       url: audioUrl,
@@ -329,9 +535,8 @@ function App() {
     setDuration(0);
     
     try {
-      await audioService.loadAudio(audioUrl);
-      // Wait a bit for audio to load metadata
-      await new Promise(resolve => setTimeout(resolve, 100));
+      // Resolves once the offscreen player can play the surah
+      await audioService.setQueue(queueItems, moshafSurahs.findIndex(s => s.id === surah.id));
       // Get updated state
       const state = await audioService.getState();
       setDuration(state.duration);
@@ -343,28 +548,45 @@ function App() {
     }
   };
 
-  // Navigate to next surah
-  const handleNext = async () => {
-    if (currentSurahIndex < surahs.length - 1 && selectedReciter && selectedMoshaf) {
-      const nextSurah = surahs[currentSurahIndex + 1];
-      setCurrentSurahIndex(currentSurahIndex + 1);
-      setSelectedSurah(nextSurah);
-      savePreferences(selectedReciter.id, selectedMoshaf.id, nextSurah.id);
-      await loadAudio(selectedMoshaf, nextSurah);
+  // Move through the offscreen queue (a moshaf or a playlist); the selection follows via state updates
+  const navigateQueue = async (step: 'next' | 'previous') => {
+    if (!selectedReciter || !selectedMoshaf || !selectedSurah) return;
+
+    // The offscreen document may have been recreated with an empty queue
+    if (queueLength === 0) {
+      const targetSurah = step === 'next' ? nextAvailableSurah : previousAvailableSurah;
+      if (!targetSurah) return;
+
+      setSelectedSurah(targetSurah);
+      savePreferences(selectedReciter.id, selectedMoshaf.id, targetSurah.id);
+      await loadAudio(selectedReciter, selectedMoshaf, targetSurah);
+      return;
     }
-  };
 
-  // Navigate to previous surah
-  const handlePrevious = async () => {
-    if (currentSurahIndex > 0 && selectedReciter && selectedMoshaf) {
-      const prevSurah = surahs[currentSurahIndex - 1];
-      setCurrentSurahIndex(currentSurahIndex - 1);
-      setSelectedSurah(prevSurah);
-      savePreferences(selectedReciter.id, selectedMoshaf.id, prevSurah.id);
-      await loadAudio(selectedMoshaf, prevSurah);
+    const targetIndex = step === 'next' ? queueIndex + 1 : queueIndex - 1;
+    if (targetIndex < 0 || targetIndex >= queueLength) return;
+
+    setIsLoadingAudio(true);
+    try {
+      if (step === 'next') {
+        await audioService.next();
+      } else {
+        await audioService.previous();
+      }
+    } catch (error) {
+      console.error('Error navigating queue:', error);
+      alert('Failed to load audio. Please try again.');
+    } finally {
+      setIsLoadingAudio(false);
     }
   };
 
+  // Navigate to next surah
+  const handleNext = () => navigateQueue('next');
+
+  // Navigate to previous surah
+  const handlePrevious = () => navigateQueue('previous');
+
   // Play/Pause toggle
   const togglePlayPause = async () => {
     if (!selectedReciter || !selectedMoshaf || !selectedSurah) {
@@ -390,14 +612,12 @@ function App() {
       }
 
       // Ensure audio is loaded before playing
-      // Check current state and reload if needed
+      // Check current state and reload if needed (a radio station is replaced by the surah)
       const currentState = await audioService.getState();
-      const needsReload = !currentState.isPlaying && (duration === 0 || currentTime === 0);
+      const needsReload = !!currentState.station || (!currentState.isPlaying && (duration === 0 || currentTime === 0));
       
       if (needsReload) {
-        await loadAudio(selectedMoshaf, selectedSurah);
-        // Wait a bit for audio to be ready
-        await new Promise(resolve => setTimeout(resolve, 200));
+        await loadAudio(selectedReciter, selectedMoshaf, selectedSurah);
       }
 
       // Play the audio
@@ -425,103 +645,117 @@ function App() {
     }
   };
 
-  // Format time helper
-  const formatTime = (seconds: number): string => {
-    if (!isFinite(seconds) || isNaN(seconds)) return '0:00';
-    
-    const totalSeconds = Math.floor(seconds);
-    const hours = Math.floor(totalSeconds / 3600);
-    const mins = Math.floor((totalSeconds % 3600) / 60);
-    const secs = totalSeconds % 60;
-    
-    // Show hours if 60 minutes or more
-    if (hours > 0) {
-      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  // Jump to the saved position and continue listening
+  const handleResume = async () => {
+    if (resumePosition === null) return;
+
+    const time = resumePosition;
+    setResumePosition(null);
+    try {
+      await audioService.setTime(time);
+      setCurrentTime(time);
+      await audioService.play();
+    } catch (error) {
+      console.error('Error resuming audio:', error);
     }
-    
-    // Otherwise show MM:SS format
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Handle progress bar click/drag
-  const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!duration) return;
+  // Forget the saved position for this recitation
+  const handleStartOver = () => {
+    setResumePosition(null);
+    if (selectedMoshaf && selectedSurah) {
+      clearPosition(selectedMoshaf.id, selectedSurah.id).catch((error) => {
+        console.error('Error clearing playback position:', error);
+      });
+    }
+  };
 
-    const rect = progressRef.current?.getBoundingClientRect();
-    if (!rect) return;
+  // Names for a bookmarked or playlisted recitation, falling back to ids when lists don't include it
+  const describeRecitation = (recitation: Pick<Bookmark, 'reciterId' | 'moshafId' | 'surahId'>) => {
+    const reciter = reciters.find(r => r.id === recitation.reciterId);
+    const moshaf = reciter?.moshaf.find(m => m.id === recitation.moshafId);
+    const surah = surahs.find(s => s.id === recitation.surahId);
+    return {
+      surah: surah ? `${surah.id}. ${surah.name}` : `${recitation.surahId}`,
+      reciter: reciter ? (moshaf ? `${reciter.name} · ${moshaf.name}` : reciter.name) : `#${recitation.reciterId}`,
+    };
+  };
 
-    const clickX = e.clientX - rect.left;
-    const width = rect.width;
-    const percentage = Math.max(0, Math.min(1, clickX / width));
-    const newTime = percentage * duration;
+  // Load a recitation and start playing from the given moment
+  const playRecitationAt = async (recitation: Pick<Bookmark, 'reciterId' | 'moshafId' | 'surahId'>, time: number) => {
+    const reciter = reciters.find(r => r.id === recitation.reciterId);
+    const moshaf = reciter?.moshaf.find(m => m.id === recitation.moshafId);
+    const surahIndex = surahs.findIndex(s => s.id === recitation.surahId);
+    if (!reciter || !moshaf || surahIndex === -1) {
+      console.error('Recitation not found:', recitation);
+      return;
+    }
 
-    audioService.setTime(newTime);
-    setCurrentTime(newTime);
-  };
+    const surah = surahs[surahIndex];
+    setSelectedReciter(reciter);
+    setSelectedMoshaf(moshaf);
+    setSelectedSurah(surah);
+    savePreferences(reciter.id, moshaf.id, surah.id);
+    await loadAudio(reciter, moshaf, surah);
 
-  // Handle progress bar drag
-  const handleProgressMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    setIsSeeking(true);
-    handleProgressClick(e);
+    try {
+      await audioService.setTime(time);
+      setCurrentTime(time);
+      await audioService.play();
+    } catch (error) {
+      console.error('Error playing recitation:', error);
+    }
   };
 
-  // Handle volume change
-  const handleVolumeClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!volumeRef.current) return;
+  const handleBookmarkJump = (bookmark: Bookmark) => playRecitationAt(bookmark, bookmark.time);
 
-    const rect = volumeRef.current.getBoundingClientRect();
-    const clickX = e.clientX - rect.left;
-    const width = rect.width;
-    const percentage = Math.max(0, Math.min(1, clickX / width));
-    const newVolume = percentage;
+  const handleRecentPlay = (entry: RecentEntry) => playRecitationAt(entry, entry.time);
 
-    setVolume(newVolume);
-    setIsMuted(newVolume === 0);
-    previousVolumeRef.current = newVolume > 0 ? newVolume : previousVolumeRef.current;
-    audioService.setVolume(newVolume);
-    storage.set({ volume: newVolume.toString() });
+  const handleToggleFavorite = async () => {
+    if (!selectedReciter) return;
+    setFavoriteReciters(await toggleFavoriteReciter(selectedReciter.id));
   };
 
-  // Handle volume drag
-  const [isVolumeSeeking, setIsVolumeSeeking] = useState(false);
-  const handleVolumeMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    setIsVolumeSeeking(true);
-    handleVolumeClick(e);
+  // Replace the queue and start playing; the selectors follow the offscreen current item
+  const playQueue = async (items: QueueItem[], startIndex: number) => {
+    setIsLoadingAudio(true);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+    try {
+      await audioService.setQueue(items, startIndex);
+      await audioService.play();
+    } catch (error) {
+      console.error('Error playing queue:', error);
+      alert('Failed to load audio. Please try again.');
+    } finally {
+      setIsLoadingAudio(false);
+    }
   };
 
-  useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isVolumeSeeking || !volumeRef.current) return;
-      
-      const rect = volumeRef.current.getBoundingClientRect();
-      const clickX = e.clientX - rect.left;
-      const width = rect.width;
-      const percentage = Math.max(0, Math.min(1, clickX / width));
-      const newVolume = percentage;
-      
-      setVolume(newVolume);
-      setIsMuted(newVolume === 0);
-      previousVolumeRef.current = newVolume > 0 ? newVolume : previousVolumeRef.current;
-      audioService.setVolume(newVolume);
-    };
+  const handlePlaylistPlay = (playlist: Playlist, startIndex: number) => playQueue(playlistToQueue(playlist), startIndex);
 
-    const handleMouseUp = () => {
-      if (isVolumeSeeking) {
-        storage.set({ volume: volume.toString() });
-      }
-      setIsVolumeSeeking(false);
-    };
+  // Seek bar: follow the pointer while dragging and seek once it's released
+  const handleSeekChange = (time: number) => {
+    setIsSeeking(true);
+    setCurrentTime(time);
+  };
 
-    if (isVolumeSeeking) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
-      
-      return () => {
-        window.removeEventListener('mousemove', handleMouseMove);
-        window.removeEventListener('mouseup', handleMouseUp);
-      };
-    }
-  }, [isVolumeSeeking, volume]);
+  const handleSeekCommit = (time: number) => {
+    setIsSeeking(false);
+    setCurrentTime(time);
+    audioService.setTime(time).catch((error) => {
+      console.error('Error seeking:', error);
+    });
+  };
+
+  // Volume changes apply live; the offscreen player saves each one as the preference
+  const handleVolumeChange = (newVolume: number) => {
+    setVolume(newVolume);
+    setIsMuted(newVolume === 0);
+    previousVolumeRef.current = newVolume > 0 ? newVolume : previousVolumeRef.current;
+    audioService.setVolume(newVolume);
+  };
 
   // Toggle mute
   const toggleMute = () => {
@@ -540,6 +774,35 @@ function App() {
     }
   };
 
+  const canGoPrevious = !!selectedSurah && (queueLength > 0 ? queueIndex > 0 : !!previousAvailableSurah);
+  const canGoNext = !!selectedSurah && (queueLength > 0 ? queueIndex < queueLength - 1 : !!nextAvailableSurah);
+
+  // A station has no surah to load, seek or skip, so only play/pause and mute apply to it
+  usePlayerShortcuts({
+    togglePlayback: () => {
+      if (!station) {
+        togglePlayPause();
+      } else {
+        audioService.togglePlayback().catch((error) => {
+          console.error('Error toggling station:', error);
+        });
+      }
+    },
+    seekBy: (seconds) => {
+      if (station || duration <= 0) return;
+      audioService.seekBy(seconds).catch((error) => {
+        console.error('Error seeking:', error);
+      });
+    },
+    toggleMute,
+    next: () => {
+      if (!station && canGoNext && !isLoadingAudio) handleNext();
+    },
+    previous: () => {
+      if (!station && canGoPrevious && !isLoadingAudio) handlePrevious();
+    },
+  }, !isLoading);
+
   if (isLoading) {
     return (
       <div dir={direction} className={`w-full max-w-full min-h-screen bg-background islamic-pattern ${language === 'ar' ? 'font-arabic' : ''} section-main-container section-loading`}>
@@ -627,31 +890,119 @@ function App() {
             </SelectContent>
           </Select>
         </div>
+        <div role="tablist" className="flex px-3 sm:px-4 gap-1 section-tabs">
+          {(['recitations', 'radio'] as const).map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 py-2 text-sm font-medium border-b-2 transition-colors ${activeTab === tab ? 'border-emerald-600 text-emerald-700 dark:border-emerald-500 dark:text-emerald-400' : 'border-transparent text-muted-foreground hover:text-foreground'}`}
+            >
+              {tab === 'radio' ? t.radioTab : t.recitationsTab}
+              {tab === 'radio' && station && (
+                <span className="inline-block h-1.5 w-1.5 ms-1.5 mb-0.5 rounded-full bg-red-500" aria-hidden="true" />
+              )}
+            </button>
+          ))}
+        </div>
       </div>
 
-      <div className="p-3 sm:p-4 flex flex-col gap-3 sm:gap-4 section-content">
+      {activeTab === 'radio' && (
+        <div className="p-3 sm:p-4 flex flex-col gap-3 sm:gap-4 section-radio-content">
+          <RadioPanel />
+        </div>
+      )}
+
+      {/* Kept mounted while hidden so the recitation panels hold their state */}
+      <div className={`p-3 sm:p-4 flex-col gap-3 sm:gap-4 ${activeTab === 'recitations' ? 'flex' : 'hidden'} section-content`}>
+
+      {/* Nothing cached and the API couldn't be reached */}
+      {loadFailed && (reciters.length === 0 || surahs.length === 0) && (
+        <div className={`flex items-center justify-between gap-2 p-2.5 rounded-md border border-amber-200 dark:border-amber-900 bg-amber-50/60 dark:bg-amber-950/30 text-xs text-amber-800 dark:text-amber-300 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-load-error`} role="alert">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <span>{t.loadFailed}</span>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRetryLoad} className="h-7 shrink-0">
+            {t.retry}
+          </Button>
+        </div>
+      )}
       
       {/* Reciter Select */}
       <div className={`flex flex-col gap-2 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-reciter-select`}>
-        <label className={`flex items-center gap-2 text-sm font-medium text-foreground ${direction === 'rtl' ? 'text-right' : 'text-left'}`}>
-          <Headphones className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
-          {t.reciter}
-        </label>
-        <Select
+        <div className="flex items-center justify-between gap-2">
+          <label className={`flex items-center gap-2 text-sm font-medium text-foreground ${direction === 'rtl' ? 'text-right' : 'text-left'}`}>
+            <Headphones className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+            {t.reciter}
+          </label>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleToggleFavorite}
+            disabled={!selectedReciter}
+            title={isSelectedReciterFavorite ? t.removeFavoriteReciter : t.addFavoriteReciter}
+            aria-label={isSelectedReciterFavorite ? t.removeFavoriteReciter : t.addFavoriteReciter}
+            aria-pressed={isSelectedReciterFavorite}
+            className="h-7 w-7 text-muted-foreground hover:text-amber-500"
+          >
+            <Star className={`h-4 w-4 ${isSelectedReciterFavorite ? 'fill-amber-400 text-amber-400' : ''}`} />
+          </Button>
+        </div>
+        {moshafTypes.length > 0 && (
+          <div className="grid grid-cols-2 gap-2 section-reciter-filters">
+            <Select
+              value={reciterFilter.riwayaId?.toString() ?? 'all'}
+              onValueChange={(value) => handleReciterFilterChange('riwayaId', value)}
+            >
+              <SelectTrigger className="h-8 text-xs border-border" dir={direction} aria-label={t.riwaya}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px] max-w-[90vw]" dir={direction}>
+                <SelectItem value="all" dir={direction}>{t.allRiwayat}</SelectItem>
+                {riwayaOptions.map((riwaya) => (
+                  <SelectItem key={riwaya.id} value={riwaya.id.toString()} dir={direction}>
+                    <span className="truncate">{riwaya.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={reciterFilter.recitationType?.toString() ?? 'all'}
+              onValueChange={(value) => handleReciterFilterChange('recitationType', value)}
+            >
+              <SelectTrigger className="h-8 text-xs border-border" dir={direction} aria-label={t.recitationType}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px] max-w-[90vw]" dir={direction}>
+                <SelectItem value="all" dir={direction}>{t.allRecitationTypes}</SelectItem>
+                {recitationTypeOptions.map((type) => (
+                  <SelectItem key={type.id} value={type.id.toString()} dir={direction}>
+                    <span className="truncate">{type.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <Combobox
+          options={reciterOptions}
           value={selectedReciter?.id.toString() || ''}
           onValueChange={handleReciterChange}
-        >
-          <SelectTrigger className="h-10 border-border hover:border-emerald-300 dark:hover:border-emerald-700" dir={direction}>
-            <SelectValue placeholder={t.selectReciter} />
-          </SelectTrigger>
-          <SelectContent className="max-h-[300px] w-[var(--radix-select-trigger-width)] max-w-[90vw]" dir={direction}>
-            {reciters.map((reciter) => (
-              <SelectItem key={reciter.id} value={reciter.id.toString()} dir={direction}>
-                <span className="truncate">{reciter.name}</span>
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+          placeholder={t.selectReciter}
+          searchPlaceholder={t.searchReciters}
+          emptyText={t.noMatches}
+          aria-label={t.reciter}
+          dir={direction}
+          className="border-border hover:border-emerald-300 dark:hover:border-emerald-700"
+        />
+        {isFilterActive(reciterFilter) && (
+          <div className="text-xs text-muted-foreground">
+            {t.recitersFound.replace('{count}', filteredReciters.length.toString())}
+          </div>
+        )}
       </div>
 
       {/* Moshaf Select */}
@@ -685,48 +1036,77 @@ function App() {
           <BookOpen className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
           {t.surah}
         </label>
-        <Select
+        <Combobox
+          options={surahOptions}
           value={selectedSurah?.id.toString() || ''}
           onValueChange={handleSurahChange}
-        >
-          <SelectTrigger className="h-10 border-border hover:border-emerald-300 dark:hover:border-emerald-700" dir={direction}>
-            <SelectValue placeholder={t.selectSurah} />
-          </SelectTrigger>
-          <SelectContent className="max-h-[300px] w-[var(--radix-select-trigger-width)] max-w-[90vw]" dir={direction}>
-            {surahs.map((surah) => (
-              <SelectItem key={surah.id} value={surah.id.toString()} dir={direction}>
-                <span className="truncate">{surah.id}. {surah.name}</span>
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+          placeholder={t.selectSurah}
+          searchPlaceholder={t.searchSurahs}
+          emptyText={t.noMatches}
+          aria-label={t.surah}
+          dir={direction}
+          className="border-border hover:border-emerald-300 dark:hover:border-emerald-700"
+        />
+        {selectedMoshaf && availableSurahs.length < surahs.length && (
+          <div className="text-xs text-muted-foreground">
+            {t.surahsAvailable
+              .replace('{count}', availableSurahs.length.toString())
+              .replace('{total}', surahs.length.toString())}
+          </div>
+        )}
       </div>
 
       {/* Audio Player Section */}
       <div className="mt-4 p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 section-audio-player">
+        {/* Surah missing from the selected moshaf */}
+        {selectedSurah && selectedMoshaf && !isSelectedSurahAvailable && (
+          <div className={`flex items-start gap-2 mb-3 p-2.5 rounded-md border border-amber-200 dark:border-amber-900 bg-amber-50/60 dark:bg-amber-950/30 text-xs text-amber-800 dark:text-amber-300 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-surah-unavailable`} role="status">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            <span>
+              {t.surahNotInMoshaf
+                .replace('{surah}', selectedSurah.name)
+                .replace('{moshaf}', selectedMoshaf.name)}
+            </span>
+          </div>
+        )}
+
         {/* Main Row: Progress Bar, Controls, Volume (all in one row on large screens) */}
         <div className={`flex flex-col lg:flex-row items-center lg:items-center gap-3 lg:gap-4 ${direction === 'rtl' ? 'lg:flex-row-reverse' : ''}`}>
           {/* Progress Bar */}
           <div className="w-full lg:flex-1 lg:min-w-0 mb-3 lg:mb-0 section-progress-bar">
-            <div
-              ref={progressRef}
-              onClick={handleProgressClick}
-              onMouseDown={handleProgressMouseDown}
-              className="group relative h-1.5 bg-muted rounded-full cursor-pointer"
+            <Slider
+              value={currentTime}
+              max={duration}
+              step={5}
+              largeStep={30}
+              disabled={duration <= 0}
+              onValueChange={handleSeekChange}
+              onValueCommit={handleSeekCommit}
+              aria-label={t.seekBar}
+              aria-valuetext={t.timeOfDuration.replace('{time}', formatTime(currentTime)).replace('{duration}', formatTime(duration))}
             >
-              <div
-                className="absolute left-0 top-0 h-full bg-emerald-600 dark:bg-emerald-500 rounded-full"
-                style={{ width: `${duration > 0 ? (currentTime / duration) * 100 : 0}%` }}
-              />
-              <div
-                className="absolute top-1/2 -translate-y-1/2 w-2.5 h-2.5 bg-emerald-600 dark:bg-emerald-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity border-2 border-background"
-                style={{ left: `calc(${duration > 0 ? (currentTime / duration) * 100 : 0}% - 5px)` }}
-              />
-            </div>
+              {/* A–B range (active loop, or the points being set) */}
+              {duration > 0 && (loop || loopDraft.start !== null) && (() => {
+                const start = loop ? loop.start : loopDraft.start ?? 0;
+                const end = loop ? loop.end : loopDraft.end ?? start;
+                return (
+                  <div
+                    className="absolute -top-0.5 -bottom-0.5 bg-amber-400/60 dark:bg-amber-300/50 rounded-sm min-w-[2px] pointer-events-none"
+                    style={{ left: `${(start / duration) * 100}%`, width: `${((end - start) / duration) * 100}%` }}
+                  />
+                );
+              })()}
+            </Slider>
             {/* Time Display */}
             <div className="flex justify-between items-center mt-2 text-xs text-muted-foreground">
               <span className="tabular-nums">{formatTime(currentTime)}</span>
-              <span className="tabular-nums">{formatTime(duration)}</span>
+              {playbackRate !== 1 && duration > 0 ? (
+                <span className="tabular-nums" title={t.timeRemaining}>
+                  −{formatTime((duration - currentTime) / playbackRate)}
+                </span>
+              ) : (
+                <span className="tabular-nums">{formatTime(duration)}</span>
+              )}
             </div>
           </div>
 
@@ -736,7 +1116,9 @@ function App() {
               variant="outline"
               size="icon"
               onClick={handlePrevious}
-              disabled={isLoadingAudio || currentSurahIndex === 0 || !selectedSurah}
+              disabled={isLoadingAudio || !canGoPrevious}
+              aria-label={t.previousSurah}
+              title={`${t.previousSurah} (Shift+P)`}
               className="h-9 w-9 sm:h-10 sm:w-10 rounded-full border-emerald-200 dark:border-emerald-800 hover:border-emerald-400 dark:hover:border-emerald-600 hover:text-emerald-600 dark:hover:text-emerald-400 disabled:opacity-40 disabled:cursor-not-allowed"
             >
               <SkipBack className="h-4 w-4" />
@@ -746,7 +1128,9 @@ function App() {
               variant="default"
               size="icon"
               onClick={togglePlayPause}
-              disabled={isLoading || isLoadingAudio || !selectedSurah || !selectedReciter || !selectedMoshaf}
+              disabled={isLoading || isLoadingAudio || !selectedSurah || !selectedReciter || !selectedMoshaf || !isSelectedSurahAvailable}
+              aria-label={isPlaying ? t.pause : t.play}
+              title={`${isPlaying ? t.pause : t.play} (K)`}
               className="w-14 h-14 sm:w-16 sm:h-16 rounded-full bg-emerald-600 hover:bg-emerald-700 dark:bg-emerald-500 dark:hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isPlaying ? (
@@ -760,7 +1144,9 @@ function App() {
               variant="outline"
               size="icon"
               onClick={handleNext}
-              disabled={isLoadingAudio || currentSurahIndex === surahs.length - 1 || !selectedSurah}
+              disabled={isLoadingAudio || !canGoNext}
+              aria-label={t.nextSurah}
+              title={`${t.nextSurah} (Shift+N)`}
               className="h-9 w-9 sm:h-10 sm:w-10 rounded-full border-emerald-200 dark:border-emerald-800 hover:border-emerald-400 dark:hover:border-emerald-600 hover:text-emerald-600 dark:hover:text-emerald-400 disabled:opacity-40 disabled:cursor-not-allowed"
             >
               <SkipForward className="h-4 w-4" />
@@ -774,7 +1160,9 @@ function App() {
             size="icon"
             onClick={toggleMute}
             className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
-            title={isMuted || volume === 0 ? (language === 'ar' ? 'إلغاء كتم الصوت' : 'Unmute') : (language === 'ar' ? 'كتم الصوت' : 'Mute')}
+            aria-label={isMuted || volume === 0 ? t.unmute : t.mute}
+            aria-pressed={isMuted || volume === 0}
+            title={`${isMuted || volume === 0 ? t.unmute : t.mute} (M)`}
           >
             {isMuted || volume === 0 ? (
               <VolumeX className="h-4 w-4" />
@@ -782,26 +1170,79 @@ function App() {
               <Volume2 className="h-4 w-4" />
             )}
           </Button>
-          <div
-            ref={volumeRef}
-            onClick={handleVolumeClick}
-            onMouseDown={handleVolumeMouseDown}
-            className="group relative flex-1 h-1.5 bg-muted rounded-full cursor-pointer"
-          >
-            <div
-              className="absolute left-0 top-0 h-full bg-emerald-600 dark:bg-emerald-500 rounded-full"
-              style={{ width: `${(isMuted ? 0 : volume) * 100}%` }}
-            />
-            <div
-              className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-emerald-600 dark:bg-emerald-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity border-2 border-background"
-              style={{ left: `calc(${(isMuted ? 0 : volume) * 100}% - 6px)` }}
-            />
-          </div>
+          <Slider
+            value={isMuted ? 0 : volume}
+            max={1}
+            step={0.05}
+            largeStep={0.2}
+            onValueChange={handleVolumeChange}
+            aria-label={t.volume}
+            aria-valuetext={`${Math.round((isMuted ? 0 : volume) * 100)}%`}
+            className="flex-1"
+            thumbClassName="w-3 h-3"
+          />
           <span className={`text-xs text-muted-foreground w-8 tabular-nums shrink-0 ${direction === 'rtl' ? 'text-left' : 'text-right'}`}>
             {Math.round((isMuted ? 0 : volume) * 100)}%
           </span>
         </div>
         </div>
+
+        {/* Playback Speed and Sleep Timer */}
+        <div className="flex flex-wrap items-center justify-center gap-3 mt-3">
+          <PlaybackRateControl playbackRate={playbackRate} />
+          <SleepTimerControl sleepTimer={sleepTimer} />
+        </div>
+
+        {/* Ayah Navigation and Repeat (the timings don't apply to a tafsir) */}
+        {selectedSurah && !playingTafsir && (
+          <AyahControls timings={ayahTimings} currentTime={currentTime} />
+        )}
+
+        {/* A–B Repeat */}
+        {selectedSurah && (
+          <LoopControls
+            currentTime={currentTime}
+            duration={duration}
+            loop={loop}
+            draft={loopDraft}
+            onDraftChange={setLoopDraft}
+          />
+        )}
+
+        {/* Tafsir */}
+        {selectedReciter && selectedMoshaf && selectedSurah && (
+          <TafsirControls
+            tafsir={tafsir}
+            recitation={{ reciterId: selectedReciter.id, moshafId: selectedMoshaf.id, surahId: selectedSurah.id }}
+            interleave={tafsirInterleave}
+            onPlay={playQueue}
+          />
+        )}
+
+        {/* Resume Offer */}
+        {resumePosition !== null && (
+          <div className={`flex items-center justify-center gap-2 mt-3 ${direction === 'rtl' ? 'flex-row-reverse' : ''} section-resume-offer`}>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleResume}
+              disabled={isLoadingAudio}
+              className="h-8 border-emerald-200 dark:border-emerald-800 hover:border-emerald-400 dark:hover:border-emerald-600 hover:text-emerald-600 dark:hover:text-emerald-400"
+            >
+              <Play className="h-3.5 w-3.5 me-1.5" />
+              {t.resumeFrom} <span className="tabular-nums ms-1">{formatTime(resumePosition)}</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleStartOver}
+              className="h-8 text-muted-foreground hover:text-foreground"
+            >
+              <RotateCcw className="h-3.5 w-3.5 me-1.5" />
+              {t.startOver}
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Current Surah Display */}
@@ -809,13 +1250,78 @@ function App() {
         <div className={`mt-3 p-2.5 sm:p-3 rounded-md border border-emerald-100 dark:border-emerald-900 bg-emerald-50/50 dark:bg-emerald-950/30 ${direction === 'rtl' ? 'text-right' : 'text-center'} section-current-surah`}>
           <div className="flex items-center justify-center gap-1.5 mb-1">
             <BookOpen className="h-3 w-3 text-emerald-600 dark:text-emerald-500 flex-shrink-0" />
-            <div className="text-xs font-medium text-emerald-700 dark:text-emerald-400">{t.playing}</div>
+            <div className="text-xs font-medium text-emerald-700 dark:text-emerald-400">
+              {playingTafsir ? t.playingTafsir : t.playing}
+            </div>
           </div>
           <div className={`text-sm sm:text-base font-semibold text-foreground truncate ${direction === 'rtl' ? 'text-right' : 'text-center'}`}>
             {selectedSurah.name}
           </div>
+          {playingTafsir && (
+            <div className={`text-xs text-muted-foreground truncate ${direction === 'rtl' ? 'text-right' : 'text-center'}`}>
+              {playingTafsir.name}
+            </div>
+          )}
         </div>
       )}
+
+      {/* Quran Text */}
+      {selectedSurah && (
+        <QuranReader
+          surah={selectedSurah}
+          timings={isSelectedRecitationPlaying && ayahTimings ? ayahTimings : null}
+          currentTime={currentTime}
+        />
+      )}
+
+      {/* Recently Played */}
+      <RecentlyPlayedPanel describe={describeRecitation} onPlay={handleRecentPlay} />
+
+      {/* Bookmarks */}
+      <BookmarksPanel
+        current={selectedReciter && selectedMoshaf && selectedSurah ? {
+          reciterId: selectedReciter.id,
+          moshafId: selectedMoshaf.id,
+          surahId: selectedSurah.id,
+          time: currentTime,
+        } : null}
+        describe={describeRecitation}
+        onJump={handleBookmarkJump}
+      />
+
+      {/* Playlists */}
+      <PlaylistsPanel
+        current={selectedReciter && selectedMoshaf && selectedSurah && isSelectedSurahAvailable ? {
+          reciterId: selectedReciter.id,
+          moshafId: selectedMoshaf.id,
+          surahId: selectedSurah.id,
+          server: selectedMoshaf.server,
+        } : null}
+        currentItem={currentItem}
+        describe={describeRecitation}
+        onPlay={handlePlaylistPlay}
+      />
+
+      {/* Offline Downloads */}
+      <DownloadsPanel
+        currentItem={selectedReciter && selectedMoshaf && selectedSurah && isSelectedSurahAvailable ? {
+          reciterId: selectedReciter.id,
+          moshafId: selectedMoshaf.id,
+          surahId: selectedSurah.id,
+          url: buildSurahUrl(selectedMoshaf.server, selectedSurah.id),
+        } : null}
+        moshafItems={selectedReciter && selectedMoshaf ? availableSurahs.map((s) => ({
+          reciterId: selectedReciter.id,
+          moshafId: selectedMoshaf.id,
+          surahId: s.id,
+          url: buildSurahUrl(selectedMoshaf.server, s.id),
+        })) : []}
+        describe={describeRecitation}
+        getReciterName={(reciterId) => reciters.find(r => r.id === reciterId)?.name ?? `#${reciterId}`}
+      />
+
+      {/* Desktop Notifications */}
+      <NotificationSettingsPanel />
       </div>
 
     </div>
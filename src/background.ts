@@ -1,4 +1,13 @@
 // Background service worker to handle side panel opening
+import { PlayerStatus, showPlayerStatus } from './lib/actionStatus';
+import { getTranslation, loadLanguagePreference } from './lib/i18n';
+import { cacheIndexWriters } from './lib/metadataCache';
+import { getNotificationAction, showPlayerNotification } from './lib/notifications';
+import { positionWriters } from './lib/playbackPositions';
+import { BackgroundRequests, createDispatcher, OffscreenRequest, SavedSelection, send } from './lib/protocol';
+import { recentWriters } from './lib/recentlyPlayed';
+import { storage } from './lib/storage';
+
 chrome.action.onClicked.addListener((tab) => {
   if (tab.id) {
     chrome.sidePanel.open({ tabId: tab.id });
@@ -16,6 +25,9 @@ chrome.runtime.onInstalled.addListener(() => {
 });
 
 // Create offscreen document for audio playback
+// Concurrent callers share one in-flight creation so createDocument is only called once
+let creatingOffscreen: Promise<void> | null = null;
+
 async function createOffscreenDocument() {
   // Check if offscreen document already exists
   const clients = await chrome.offscreen.hasDocument();
@@ -24,17 +36,24 @@ async function createOffscreenDocument() {
     return;
   }
 
+  if (creatingOffscreen) {
+    return creatingOffscreen;
+  }
+
   console.log('[Background] Creating offscreen document...');
+  creatingOffscreen = chrome.offscreen.createDocument({
+    url: 'offscreen.html',
+    reasons: ['DOM_SCRAPING' as chrome.offscreen.Reason], // Audio playback reason
+    justification: 'Audio playback needs to continue when side panel is closed'
+  });
   try {
-    await chrome.offscreen.createDocument({
-      url: 'offscreen.html',
-      reasons: ['DOM_SCRAPING' as chrome.offscreen.Reason], // Audio playback reason
-      justification: 'Audio playback needs to continue when side panel is closed'
-    });
+    await creatingOffscreen;
     console.log('[Background] Offscreen document created successfully');
   } catch (error) {
     console.error('[Background] Failed to create offscreen document:', error);
     throw error;
+  } finally {
+    creatingOffscreen = null;
   }
 }
 
@@ -42,21 +61,170 @@ async function createOffscreenDocument() {
 chrome.runtime.onStartup.addListener(createOffscreenDocument);
 chrome.runtime.onInstalled.addListener(createOffscreenDocument);
 
+// Keyboard commands from manifest.json and context menu items, forwarded to the offscreen player
+// so they work from any tab with the side panel closed; _execute_action opens the panel via onClicked
+const SEEK_STEP_SECONDS = 10;
+const VOLUME_STEP = 0.1;
+
+const PLAYER_REQUESTS: Record<string, OffscreenRequest> = {
+  'toggle-playback': { type: 'TOGGLE_PLAYBACK' },
+  'continue-last': { type: 'CONTINUE_LAST' },
+  'retry': { type: 'RETRY' },
+  'next-surah': { type: 'NEXT' },
+  'previous-surah': { type: 'PREVIOUS' },
+  'seek-forward': { type: 'SEEK_BY', seconds: SEEK_STEP_SECONDS },
+  'seek-backward': { type: 'SEEK_BY', seconds: -SEEK_STEP_SECONDS },
+  'volume-up': { type: 'CHANGE_VOLUME', delta: VOLUME_STEP },
+  'volume-down': { type: 'CHANGE_VOLUME', delta: -VOLUME_STEP },
+};
+
+// Play/pause and continue may have to load the last selection; the offscreen document has no
+// chrome.storage, so the selection is read here and sent along
+async function getSavedSelection(): Promise<SavedSelection | null> {
+  const saved = await storage.get(['reciterId', 'moshafId', 'surahId']);
+  const reciterId = parseInt(saved.reciterId);
+  const moshafId = parseInt(saved.moshafId);
+  const surahId = parseInt(saved.surahId);
+  return isNaN(reciterId) || isNaN(moshafId) || isNaN(surahId) ? null : { reciterId, moshafId, surahId };
+}
+
+async function forwardToPlayer(action: string) {
+  const request = PLAYER_REQUESTS[action];
+  if (!request) return;
+  try {
+    await createOffscreenDocument();
+    const resumes = request.type === 'TOGGLE_PLAYBACK' || request.type === 'CONTINUE_LAST';
+    const response = await send(resumes ? { ...request, selection: await getSavedSelection() } : request);
+    if (!response.success) {
+      console.warn(`[Background] ${action} failed:`, response.error);
+    }
+  } catch (error) {
+    console.error(`[Background] ${action} error:`, error);
+  }
+}
+
+chrome.commands.onCommand.addListener(forwardToPlayer);
+
+// Right-click menu on the toolbar icon and on pages, titled in the panel's language
+// Menus persist across browser restarts, so they're only rebuilt on install and language change
+async function createContextMenus() {
+  const t = getTranslation(await loadLanguagePreference());
+  const items: Record<string, string> = {
+    'toggle-playback': t.playPause,
+    'next-surah': t.nextSurah,
+    'continue-last': t.continueLastRecitation,
+  };
+  chrome.contextMenus.removeAll(() => {
+    for (const [id, title] of Object.entries(items)) {
+      chrome.contextMenus.create({ id, title, contexts: ['action', 'page'] });
+    }
+  });
+}
+
+chrome.runtime.onInstalled.addListener(createContextMenus);
+
+chrome.contextMenus.onClicked.addListener((info) => {
+  forwardToPlayer(String(info.menuItemId));
+});
+
+// Skip/Retry buttons on player notifications; clicking the notification itself just dismisses it
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  chrome.notifications.clear(notificationId);
+  const action = getNotificationAction(notificationId, buttonIndex);
+  if (action) {
+    forwardToPlayer(action);
+  }
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  chrome.notifications.clear(notificationId);
+});
+
+// Last status reported by the offscreen player, kept to redraw the tooltip in a new language
+let playerStatus: PlayerStatus | null = null;
+
+function applyPlayerStatus(status: PlayerStatus) {
+  playerStatus = status;
+  showPlayerStatus(status).catch((error) => {
+    console.warn('[Background] Failed to update toolbar status:', error);
+  });
+}
+
+storage.onChanged('language', () => {
+  createContextMenus();
+  if (playerStatus) {
+    applyPlayerStatus(playerStatus);
+  }
+});
+
 // Handle request to create offscreen document
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  if (message.type === 'CREATE_OFFSCREEN') {
-    console.log('[Background] CREATE_OFFSCREEN message received');
-    createOffscreenDocument().then(() => {
+// Other messages are not intercepted - they pass through to the offscreen document
+chrome.runtime.onMessage.addListener(createDispatcher<BackgroundRequests>({
+  CREATE_OFFSCREEN: async () => {
+    try {
+      await createOffscreenDocument();
       console.log('[Background] CREATE_OFFSCREEN success');
-      sendResponse({ success: true });
-    }).catch((error) => {
+      return { success: true };
+    } catch (error) {
       console.error('[Background] CREATE_OFFSCREEN error:', error);
-      sendResponse({ success: false, error: error.message });
-    });
-    return true; // Keep channel open for async response
-  }
-  
-  // Don't intercept other messages - let them pass through to offscreen document
-  return false;
-});
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  },
+
+  STORAGE_GET: async ({ keys }) => ({ success: true, values: await chrome.storage.local.get(keys) }),
+
+  STORAGE_SET: async ({ items }) => {
+    await chrome.storage.local.set(items);
+    return { success: true };
+  },
+
+  STORAGE_REMOVE: async ({ keys }) => {
+    await chrome.storage.local.remove(keys);
+    return { success: true };
+  },
+
+  TOUCH_CACHE_ENTRY: async ({ key, limit }) => {
+    await cacheIndexWriters.touch(key, limit);
+    return { success: true };
+  },
+
+  SAVE_POSITION: async ({ moshafId, surahId, time, duration }) => {
+    await positionWriters.save(moshafId, surahId, time, duration);
+    return { success: true };
+  },
+
+  CLEAR_POSITION: async ({ moshafId, surahId }) => {
+    await positionWriters.clear(moshafId, surahId);
+    return { success: true };
+  },
+
+  RECORD_RECENT: async ({ entry }) => {
+    await recentWriters.record(entry);
+    return { success: true };
+  },
+
+  REMOVE_RECENT: async ({ moshafId, surahId }) => ({
+    success: true,
+    entries: await recentWriters.remove(moshafId, surahId),
+  }),
+
+  CLEAR_RECENT: async () => {
+    await recentWriters.clear();
+    return { success: true };
+  },
+
+  PLAYER_STATUS: ({ status }) => {
+    applyPlayerStatus(status);
+    return { success: true };
+  },
 
+  SHOW_NOTIFICATION: async ({ notification }) => {
+    try {
+      await showPlayerNotification(notification);
+      return { success: true };
+    } catch (error) {
+      console.warn('[Background] Failed to show notification:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  },
+}, '[Background]'));
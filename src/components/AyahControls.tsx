@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, ListOrdered } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { audioService } from '@/lib/audioService';
+import { AyahTiming, findAyahIndex } from '@/lib/ayahTiming';
+
+interface AyahControlsProps {
+  // undefined while loading, null when the recitation has no timing data
+  timings: AyahTiming[] | null | undefined;
+  currentTime: number;
+}
+
+const REPEAT_OPTIONS = ['1', '2', '3', '5', '7', '10', '20', 'forever'];
+
+// Going back within this many seconds of an ayah's start jumps to the ayah before it
+const RESTART_THRESHOLD_SECONDS = 2;
+
+export function AyahControls({ timings, currentTime }: AyahControlsProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [fromAyah, setFromAyah] = useState('');
+  const [toAyah, setToAyah] = useState('');
+  const [repeat, setRepeat] = useState('3');
+
+  // New timings (different surah) reset the range
+  useEffect(() => {
+    setFromAyah(timings?.[0]?.ayah.toString() ?? '');
+    setToAyah(timings?.[0]?.ayah.toString() ?? '');
+  }, [timings]);
+
+  if (timings === undefined) {
+    return null;
+  }
+
+  if (timings === null) {
+    return (
+      <div className="mt-3 pt-3 border-t border-emerald-100 dark:border-emerald-900 text-xs text-muted-foreground text-center section-ayah-controls">
+        {t.noAyahTiming}
+      </div>
+    );
+  }
+
+  const currentIndex = findAyahIndex(timings, currentTime);
+  const currentAyah = currentIndex >= 0 ? timings[currentIndex] : null;
+  const lastAyah = timings[timings.length - 1].ayah;
+
+  const seekToIndex = (index: number) => {
+    const target = timings[Math.max(0, Math.min(timings.length - 1, index))];
+    audioService.setTime(target.start).catch((error) => {
+      console.error('Error seeking to ayah:', error);
+    });
+  };
+
+  const handlePreviousAyah = () => {
+    if (currentAyah && currentTime - currentAyah.start > RESTART_THRESHOLD_SECONDS) {
+      seekToIndex(currentIndex);
+    } else {
+      seekToIndex(currentIndex - 1);
+    }
+  };
+
+  const handleNextAyah = () => seekToIndex(currentIndex + 1);
+
+  // Repeat is enforced by the offscreen A–B loop over the selected ayahs
+  const handleRepeat = async () => {
+    const from = timings.find((timing) => timing.ayah === parseInt(fromAyah));
+    const to = timings.find((timing) => timing.ayah === parseInt(toAyah));
+    if (!from || !to) return;
+
+    const [first, last] = from.start <= to.start ? [from, to] : [to, from];
+    try {
+      await audioService.setLoop({
+        start: first.start,
+        end: last.end,
+        repeatCount: repeat === 'forever' ? null : parseInt(repeat),
+        pauseSeconds: 0,
+      });
+      await audioService.play();
+    } catch (error) {
+      console.error('Error repeating ayahs:', error);
+    }
+  };
+
+  const PreviousIcon = direction === 'rtl' ? ChevronRight : ChevronLeft;
+  const NextIcon = direction === 'rtl' ? ChevronLeft : ChevronRight;
+
+  return (
+    <div className={`mt-3 pt-3 border-t border-emerald-100 dark:border-emerald-900 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-ayah-controls`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handlePreviousAyah}
+          disabled={currentIndex <= 0 && (!currentAyah || currentTime - currentAyah.start <= RESTART_THRESHOLD_SECONDS)}
+          title={t.previousAyah}
+          aria-label={t.previousAyah}
+          className="h-8 w-8"
+        >
+          <PreviousIcon className="h-4 w-4" />
+        </Button>
+        <div className="text-xs font-medium text-emerald-700 dark:text-emerald-400 tabular-nums" aria-live="polite">
+          {t.ayah} {currentAyah ? currentAyah.ayah : '–'} / {lastAyah}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleNextAyah}
+          disabled={currentIndex >= timings.length - 1}
+          title={t.nextAyah}
+          aria-label={t.nextAyah}
+          className="h-8 w-8"
+        >
+          <NextIcon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1.5 text-xs text-foreground">
+          <ListOrdered className="h-3.5 w-3.5 text-emerald-600 dark:text-emerald-500" />
+          {t.repeatAyahs}
+        </div>
+        <Select value={fromAyah} onValueChange={setFromAyah}>
+          <SelectTrigger className="h-8 w-auto min-w-[72px] text-xs" dir={direction} aria-label={t.fromAyah}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-[240px]" dir={direction}>
+            {timings.map((timing) => (
+              <SelectItem key={timing.ayah} value={timing.ayah.toString()} dir={direction}>
+                {`${t.fromAyah} ${timing.ayah}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={toAyah} onValueChange={setToAyah}>
+          <SelectTrigger className="h-8 w-auto min-w-[72px] text-xs" dir={direction} aria-label={t.toAyah}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-[240px]" dir={direction}>
+            {timings.map((timing) => (
+              <SelectItem key={timing.ayah} value={timing.ayah.toString()} dir={direction}>
+                {`${t.toAyah} ${timing.ayah}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={repeat} onValueChange={setRepeat}>
+          <SelectTrigger className="h-8 w-auto min-w-[72px] text-xs" dir={direction} aria-label={t.repeatCount}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent dir={direction}>
+            {REPEAT_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option} dir={direction}>
+                {option === 'forever' ? t.repeatForever : `×${option}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={handleRepeat}
+          disabled={!fromAyah || !toAyah}
+          className="h-8 bg-emerald-600 hover:bg-emerald-700 dark:bg-emerald-500 dark:hover:bg-emerald-600"
+        >
+          {t.startLoop}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bookmark as BookmarkIcon, BookmarkPlus, Download, Play, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  addBookmark,
+  Bookmark,
+  exportBookmarks,
+  getBookmarks,
+  importBookmarks,
+  NewBookmark,
+  removeBookmark,
+} from '@/lib/bookmarks';
+import { formatTime } from '@/lib/utils';
+
+interface BookmarksPanelProps {
+  // Position to bookmark, or null when nothing is loaded
+  current: Omit<NewBookmark, 'note'> | null;
+  describe: (bookmark: Pick<Bookmark, 'reciterId' | 'moshafId' | 'surahId'>) => { surah: string; reciter: string };
+  onJump: (bookmark: Bookmark) => void;
+}
+
+export function BookmarksPanel({ current, describe, onJump }: BookmarksPanelProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [note, setNote] = useState('');
+  const [pendingBookmark, setPendingBookmark] = useState<Omit<NewBookmark, 'note'> | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getBookmarks().then(setBookmarks);
+  }, []);
+
+  // Capture the position when the form opens so typing a note doesn't move the bookmark
+  const startAdding = () => {
+    if (!current) return;
+    setPendingBookmark(current);
+    setNote('');
+    setIsAdding(true);
+  };
+
+  const handleSave = async () => {
+    if (!pendingBookmark) return;
+    await addBookmark({ ...pendingBookmark, note });
+    setBookmarks(await getBookmarks());
+    setIsAdding(false);
+    setPendingBookmark(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    await removeBookmark(id);
+    setBookmarks(await getBookmarks());
+  };
+
+  const handleExport = async () => {
+    const json = await exportBookmarks();
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `quran-bookmarks-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await importBookmarks(await file.text());
+      setBookmarks(await getBookmarks());
+    } catch (error) {
+      console.error('Error importing bookmarks:', error);
+      alert(t.importFailed);
+    }
+  };
+
+  return (
+    <div className={`p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-bookmarks`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <BookmarkIcon className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+          {t.bookmarks}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleExport}
+            disabled={bookmarks.length === 0}
+            className="h-8 px-2 text-muted-foreground hover:text-foreground"
+          >
+            <Download className="h-3.5 w-3.5 me-1" />
+            {t.exportBookmarks}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            className="h-8 px-2 text-muted-foreground hover:text-foreground"
+          >
+            <Upload className="h-3.5 w-3.5 me-1" />
+            {t.importBookmarks}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {isAdding && pendingBookmark ? (
+        <div className="flex flex-col gap-2 mb-3">
+          <div className="text-xs text-muted-foreground">
+            {describe(pendingBookmark).surah} · <span className="tabular-nums">{formatTime(pendingBookmark.time)}</span>
+          </div>
+          <Input
+            autoFocus
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setIsAdding(false);
+            }}
+            placeholder={t.bookmarkNotePlaceholder}
+            dir={direction}
+            className="h-9"
+          />
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              onClick={handleSave}
+              className="h-8 bg-emerald-600 hover:bg-emerald-700 dark:bg-emerald-500 dark:hover:bg-emerald-600"
+            >
+              {t.save}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsAdding(false)} className="h-8">
+              {t.cancel}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={startAdding}
+          disabled={!current}
+          className="w-full h-8 mb-3 border-emerald-200 dark:border-emerald-800 hover:border-emerald-400 dark:hover:border-emerald-600 hover:text-emerald-600 dark:hover:text-emerald-400"
+        >
+          <BookmarkPlus className="h-3.5 w-3.5 me-1.5" />
+          {t.addBookmark}
+        </Button>
+      )}
+
+      {bookmarks.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center py-2">{t.noBookmarks}</div>
+      ) : (
+        <ul className="flex flex-col gap-1.5 max-h-[240px] overflow-y-auto">
+          {bookmarks.map((bookmark) => {
+            const { surah, reciter } = describe(bookmark);
+            return (
+              <li
+                key={bookmark.id}
+                className="flex items-center gap-2 p-2 rounded-md border border-border hover:border-emerald-200 dark:hover:border-emerald-800"
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onJump(bookmark)}
+                  title={t.playBookmark}
+                  aria-label={t.playBookmark}
+                  className="h-8 w-8 shrink-0 text-emerald-600 dark:text-emerald-400"
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                    <span className="truncate">{surah}</span>
+                    <span className="tabular-nums text-xs text-muted-foreground shrink-0">{formatTime(bookmark.time)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{reciter}</div>
+                  {bookmark.note && (
+                    <div className="text-xs text-foreground/80 mt-0.5 break-words">{bookmark.note}</div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(bookmark.id)}
+                  title={t.deleteBookmark}
+                  aria-label={t.deleteBookmark}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
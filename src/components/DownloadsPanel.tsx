@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Download, HardDrive, Pause, Play, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useDownloads } from '@/hooks/useDownloads';
+import { audioService, QueueItem } from '@/lib/audioService';
+import { DownloadItem, formatBytes, getStorageUsage, StorageUsage } from '@/lib/downloads';
+
+interface DownloadsPanelProps {
+  // The selected surah, and every surah recorded in the selected moshaf
+  currentItem: QueueItem | null;
+  moshafItems: QueueItem[];
+  describe: (item: Pick<QueueItem, 'reciterId' | 'moshafId' | 'surahId'>) => { surah: string; reciter: string };
+  getReciterName: (reciterId: number) => string;
+}
+
+export function DownloadsPanel({ currentItem, moshafItems, describe, getReciterName }: DownloadsPanelProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const downloads = useDownloads();
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  const downloadedUrls = new Set(downloads.map((d) => d.url));
+  const completedCount = downloads.filter((d) => d.status === 'completed').length;
+  const moshafRemaining = moshafItems.filter((item) => !downloadedUrls.has(item.url));
+
+  // Usage only changes meaningfully when a download finishes or is deleted
+  useEffect(() => {
+    getStorageUsage().then(setStorageUsage).catch((error) => {
+      console.warn('Storage estimate unavailable:', error);
+    });
+  }, [completedCount, downloads.length]);
+
+  const run = (action: () => Promise<void>) => {
+    action().catch((error) => {
+      console.error('Error updating downloads:', error);
+    });
+  };
+
+  const handleDeleteReciter = (reciterId: number) => {
+    if (!confirm(t.confirmDeleteReciterDownloads)) return;
+    run(() => audioService.removeDownloads(downloads.filter((d) => d.reciterId === reciterId).map((d) => d.url)));
+  };
+
+  // Group by reciter, with each moshaf's surahs in order
+  const groups = new Map<number, DownloadItem[]>();
+  [...downloads]
+    .sort((a, b) => a.moshafId - b.moshafId || a.surahId - b.surahId)
+    .forEach((item) => groups.set(item.reciterId, [...(groups.get(item.reciterId) ?? []), item]));
+
+  const statusLabel = (item: DownloadItem) => {
+    switch (item.status) {
+      case 'queued':
+        return t.downloadQueued;
+      case 'paused':
+        return t.downloadPaused;
+      case 'error':
+        return t.downloadFailed;
+      case 'completed':
+        return formatBytes(item.receivedBytes);
+      case 'downloading':
+        return item.totalBytes
+          ? `${formatBytes(item.receivedBytes)} / ${formatBytes(item.totalBytes)}`
+          : formatBytes(item.receivedBytes);
+    }
+  };
+
+  return (
+    <div className={`p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-downloads`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <Download className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+          {t.downloads}
+        </div>
+        {storageUsage && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground tabular-nums" title={t.storageUsed}>
+            <HardDrive className="h-3.5 w-3.5" />
+            {formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => currentItem && run(() => audioService.startDownloads([currentItem]))}
+          disabled={!currentItem || downloadedUrls.has(currentItem.url)}
+          className="flex-1 h-8 border-emerald-200 dark:border-emerald-800 hover:border-emerald-400 dark:hover:border-emerald-600 hover:text-emerald-600 dark:hover:text-emerald-400"
+        >
+          <Download className="h-3.5 w-3.5 me-1.5" />
+          {t.downloadSurah}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => run(() => audioService.startDownloads(moshafRemaining))}
+          disabled={moshafRemaining.length === 0}
+          className="flex-1 h-8 border-emerald-200 dark:border-emerald-800 hover:border-emerald-400 dark:hover:border-emerald-600 hover:text-emerald-600 dark:hover:text-emerald-400"
+        >
+          <Download className="h-3.5 w-3.5 me-1.5" />
+          {t.downloadMoshaf}
+          {moshafRemaining.length > 0 && (
+            <span className="ms-1 text-muted-foreground tabular-nums">({moshafRemaining.length})</span>
+          )}
+        </Button>
+      </div>
+
+      {downloads.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center py-2">{t.noDownloads}</div>
+      ) : (
+        <div className="flex flex-col gap-3 max-h-[320px] overflow-y-auto">
+          {Array.from(groups.entries()).map(([reciterId, items]) => (
+            <div key={reciterId}>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <div className="min-w-0 truncate text-xs font-medium text-foreground">{getReciterName(reciterId)}</div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteReciter(reciterId)}
+                  className="h-7 px-2 shrink-0 text-xs text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-3.5 w-3.5 me-1" />
+                  {t.deleteReciterDownloads}
+                </Button>
+              </div>
+              <ul className="flex flex-col gap-1">
+                {items.map((item) => (
+                  <li key={item.url} className="flex items-center gap-2 rounded-md border border-border p-1.5">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2 text-xs">
+                        <span className="truncate font-medium text-foreground">{describe(item).surah}</span>
+                        <span
+                          className={`shrink-0 tabular-nums ${item.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}
+                          title={item.error ?? undefined}
+                        >
+                          {statusLabel(item)}
+                        </span>
+                      </div>
+                      {item.status !== 'completed' && (
+                        <div className="mt-1 h-1 bg-muted rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-emerald-600 dark:bg-emerald-500 rounded-full transition-[width]"
+                            style={{ width: `${item.totalBytes ? (item.receivedBytes / item.totalBytes) * 100 : 0}%` }}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    {item.status === 'completed' ? (
+                      <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-600 dark:text-emerald-400" aria-label={t.availableOffline} />
+                    ) : item.status === 'paused' || item.status === 'error' ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => run(() => audioService.resumeDownload(item.url))}
+                        title={t.resumeDownload}
+                        aria-label={t.resumeDownload}
+                        className="h-7 w-7 shrink-0"
+                      >
+                        <Play className="h-3.5 w-3.5" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => run(() => audioService.pauseDownload(item.url))}
+                        title={t.pauseDownload}
+                        aria-label={t.pauseDownload}
+                        className="h-7 w-7 shrink-0"
+                      >
+                        <Pause className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => run(() => audioService.removeDownloads([item.url]))}
+                      title={item.status === 'completed' ? t.deleteDownload : t.cancelDownload}
+                      aria-label={item.status === 'completed' ? t.deleteDownload : t.cancelDownload}
+                      className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                    >
+                      {item.status === 'completed' ? <Trash2 className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Repeat, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { AudioLoop, audioService } from '@/lib/audioService';
+import { formatTime } from '@/lib/utils';
+
+export interface LoopDraft {
+  start: number | null;
+  end: number | null;
+}
+
+interface LoopControlsProps {
+  currentTime: number;
+  duration: number;
+  loop: AudioLoop | null;
+  draft: LoopDraft;
+  onDraftChange: (draft: LoopDraft) => void;
+}
+
+const REPEAT_OPTIONS = ['1', '2', '3', '5', '7', '10', '20', 'forever'];
+const PAUSE_OPTIONS = ['0', '1', '2', '3', '5', '10'];
+
+export function LoopControls({ currentTime, duration, loop, draft, onDraftChange }: LoopControlsProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [repeat, setRepeat] = useState('3');
+  const [pauseSeconds, setPauseSeconds] = useState('0');
+
+  const canStart = draft.start !== null && draft.end !== null && draft.end > draft.start;
+
+  const handleStart = async () => {
+    if (draft.start === null || draft.end === null) return;
+
+    try {
+      await audioService.setLoop({
+        start: draft.start,
+        end: draft.end,
+        repeatCount: repeat === 'forever' ? null : parseInt(repeat),
+        pauseSeconds: parseInt(pauseSeconds),
+      });
+      await audioService.play();
+    } catch (error) {
+      console.error('Error starting loop:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    onDraftChange({ start: null, end: null });
+    try {
+      await audioService.clearLoop();
+    } catch (error) {
+      console.error('Error clearing loop:', error);
+    }
+  };
+
+  // Setting A past B (or B before A) starts a fresh range
+  const setPointA = () => {
+    onDraftChange({ start: currentTime, end: draft.end !== null && draft.end > currentTime ? draft.end : null });
+  };
+
+  const setPointB = () => {
+    onDraftChange({ start: draft.start !== null && draft.start < currentTime ? draft.start : null, end: currentTime });
+  };
+
+  return (
+    <div className={`mt-3 pt-3 border-t border-emerald-100 dark:border-emerald-900 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-loop-controls`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2 text-xs font-medium text-foreground">
+          <Repeat className="h-3.5 w-3.5 text-emerald-600 dark:text-emerald-500" />
+          {t.abRepeat}
+        </div>
+        {loop && (
+          <div className="flex items-center gap-2 text-xs text-emerald-700 dark:text-emerald-400">
+            <span className="tabular-nums">
+              {formatTime(loop.start)} – {formatTime(loop.end)}
+            </span>
+            <span>
+              {t.repeatsLeft}: <span className="tabular-nums">{loop.remaining === null ? '∞' : loop.remaining}</span>
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleClear}
+              title={t.clearLoop}
+              aria-label={t.clearLoop}
+              className="h-6 w-6 text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={setPointA}
+          disabled={!duration}
+          className="h-8 px-2 tabular-nums"
+        >
+          {t.setPointA}{draft.start !== null && ` · ${formatTime(draft.start)}`}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={setPointB}
+          disabled={!duration}
+          className="h-8 px-2 tabular-nums"
+        >
+          {t.setPointB}{draft.end !== null && ` · ${formatTime(draft.end)}`}
+        </Button>
+
+        <Select value={repeat} onValueChange={setRepeat}>
+          <SelectTrigger className="h-8 w-auto min-w-[84px] text-xs" dir={direction} aria-label={t.repeatCount}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent dir={direction}>
+            {REPEAT_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option} dir={direction}>
+                {option === 'forever' ? `${t.repeatCount}: ${t.repeatForever}` : `${t.repeatCount}: ×${option}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={pauseSeconds} onValueChange={setPauseSeconds}>
+          <SelectTrigger className="h-8 w-auto min-w-[84px] text-xs" dir={direction} aria-label={t.pauseBetween}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent dir={direction}>
+            {PAUSE_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option} dir={direction}>
+                {`${t.pauseBetween}: ${option}s`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          size="sm"
+          onClick={handleStart}
+          disabled={!canStart}
+          className="h-8 bg-emerald-600 hover:bg-emerald-700 dark:bg-emerald-500 dark:hover:bg-emerald-600"
+        >
+          {t.startLoop}
+        </Button>
+      </div>
+    </div>
+  );
+}
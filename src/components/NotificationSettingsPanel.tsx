@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  getNotificationSettings,
+  NotificationSettings,
+  saveNotificationSettings,
+} from '@/lib/notifications';
+
+export function NotificationSettingsPanel() {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [settings, setSettings] = useState<NotificationSettings>({ nowPlaying: false, errors: false });
+
+  useEffect(() => {
+    getNotificationSettings().then(setSettings);
+  }, []);
+
+  const handleChange = (key: keyof NotificationSettings, enabled: boolean) => {
+    const updated = { ...settings, [key]: enabled };
+    setSettings(updated);
+    saveNotificationSettings(updated).catch((error) => {
+      console.error('Error saving notification settings:', error);
+    });
+  };
+
+  const options: { key: keyof NotificationSettings; label: string }[] = [
+    { key: 'nowPlaying', label: t.notifyNowPlaying },
+    { key: 'errors', label: t.notifyErrors },
+  ];
+
+  return (
+    <div className={`p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-notifications`}>
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium text-foreground">
+        <Bell className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+        {t.notifications}
+      </div>
+      {options.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-2 mt-1.5 text-xs text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings[key]}
+            onChange={(e) => handleChange(key, e.target.checked)}
+            className="h-3.5 w-3.5 accent-emerald-600"
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
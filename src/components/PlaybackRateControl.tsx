@@ -0,0 +1,45 @@
+import { Gauge } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { audioService } from '@/lib/audioService';
+
+interface PlaybackRateControlProps {
+  playbackRate: number;
+}
+
+const RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+export function PlaybackRateControl({ playbackRate }: PlaybackRateControlProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+
+  const handleChange = (value: string) => {
+    audioService.setPlaybackRate(parseFloat(value)).catch((error) => {
+      console.error('Error updating playback speed:', error);
+    });
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${direction === 'rtl' ? 'flex-row-reverse' : ''} section-playback-rate`}>
+      <Gauge className={`h-4 w-4 shrink-0 ${playbackRate !== 1 ? 'text-emerald-600 dark:text-emerald-400' : 'text-muted-foreground'}`} />
+      <Select value={playbackRate.toString()} onValueChange={handleChange}>
+        <SelectTrigger className="h-8 w-auto min-w-[72px] text-xs tabular-nums" dir={direction} aria-label={t.playbackSpeed}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent dir={direction}>
+          {RATES.map((rate) => (
+            <SelectItem key={rate} value={rate.toString()} dir={direction}>
+              <span className="tabular-nums">{rate}×</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
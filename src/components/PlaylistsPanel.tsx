@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, ListMusic, ListPlus, Pencil, Play, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { QueueItem } from '@/lib/audioService';
+import {
+  addPlaylistEntry,
+  createPlaylist,
+  deletePlaylist,
+  getPlaylists,
+  movePlaylistEntry,
+  NewPlaylistEntry,
+  Playlist,
+  PlaylistEntry,
+  removePlaylistEntry,
+  renamePlaylist,
+} from '@/lib/playlists';
+
+interface PlaylistsPanelProps {
+  // Recitation to add, or null when nothing is selected
+  current: NewPlaylistEntry | null;
+  currentItem: QueueItem | null;
+  describe: (entry: Pick<PlaylistEntry, 'reciterId' | 'moshafId' | 'surahId'>) => { surah: string; reciter: string };
+  onPlay: (playlist: Playlist, startIndex: number) => void;
+}
+
+export function PlaylistsPanel({ current, currentItem, describe, onPlay }: PlaylistsPanelProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  useEffect(() => {
+    getPlaylists().then(setPlaylists);
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    const playlist = await createPlaylist(newName);
+    setPlaylists(await getPlaylists());
+    setExpandedId(playlist.id);
+    setIsCreating(false);
+    setNewName('');
+  };
+
+  const handleRename = async (id: string) => {
+    if (renameValue.trim()) {
+      setPlaylists(await renamePlaylist(id, renameValue));
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t.confirmDeletePlaylist)) return;
+    setPlaylists(await deletePlaylist(id));
+  };
+
+  const handleAddCurrent = async (id: string) => {
+    if (!current) return;
+    setPlaylists(await addPlaylistEntry(id, current));
+    setExpandedId(id);
+  };
+
+  const isPlayingEntry = (entry: PlaylistEntry) =>
+    currentItem?.reciterId === entry.reciterId &&
+    currentItem?.moshafId === entry.moshafId &&
+    currentItem?.surahId === entry.surahId;
+
+  return (
+    <div className={`p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-playlists`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <ListMusic className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+          {t.playlists}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsCreating(true)}
+          className="h-8 px-2 text-muted-foreground hover:text-foreground"
+        >
+          <Plus className="h-3.5 w-3.5 me-1" />
+          {t.newPlaylist}
+        </Button>
+      </div>
+
+      {isCreating && (
+        <div className="flex items-center gap-2 mb-3">
+          <Input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setIsCreating(false);
+            }}
+            placeholder={t.playlistNamePlaceholder}
+            dir={direction}
+            className="h-9"
+          />
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={!newName.trim()}
+            className="h-9 bg-emerald-600 hover:bg-emerald-700 dark:bg-emerald-500 dark:hover:bg-emerald-600"
+          >
+            {t.create}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsCreating(false)}
+            aria-label={t.cancel}
+            className="h-9 w-9 shrink-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {playlists.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center py-2">{t.noPlaylists}</div>
+      ) : (
+        <ul className="flex flex-col gap-1.5">
+          {playlists.map((playlist) => (
+            <li key={playlist.id} className="rounded-md border border-border">
+              <div className="flex items-center gap-1 p-1.5">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onPlay(playlist, 0)}
+                  disabled={playlist.entries.length === 0}
+                  title={t.playPlaylist}
+                  aria-label={t.playPlaylist}
+                  className="h-8 w-8 shrink-0 text-emerald-600 dark:text-emerald-400"
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                {renamingId === playlist.id ? (
+                  <Input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => handleRename(playlist.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(playlist.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    dir={direction}
+                    className="h-8 flex-1"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === playlist.id ? null : playlist.id)}
+                    aria-expanded={expandedId === playlist.id}
+                    className={`min-w-0 flex-1 truncate text-sm font-medium text-foreground ${direction === 'rtl' ? 'text-right' : 'text-left'}`}
+                  >
+                    {playlist.name}
+                    <span className="ms-1.5 text-xs text-muted-foreground tabular-nums">({playlist.entries.length})</span>
+                  </button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleAddCurrent(playlist.id)}
+                  disabled={!current}
+                  title={t.addToPlaylist}
+                  aria-label={t.addToPlaylist}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
+                >
+                  <ListPlus className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setRenamingId(playlist.id);
+                    setRenameValue(playlist.name);
+                  }}
+                  title={t.renamePlaylist}
+                  aria-label={t.renamePlaylist}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(playlist.id)}
+                  title={t.deletePlaylist}
+                  aria-label={t.deletePlaylist}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+
+              {expandedId === playlist.id && (
+                <div className="border-t border-border px-1.5 py-1.5">
+                  {playlist.entries.length === 0 ? (
+                    <div className="text-xs text-muted-foreground text-center py-1.5">{t.emptyPlaylist}</div>
+                  ) : (
+                    <ol className="flex flex-col gap-1 max-h-[240px] overflow-y-auto">
+                      {playlist.entries.map((entry, index) => {
+                        const { surah, reciter } = describe(entry);
+                        return (
+                          <li
+                            key={entry.id}
+                            className={`flex items-center gap-1 rounded px-1 ${isPlayingEntry(entry) ? 'bg-emerald-50 dark:bg-emerald-950/40' : ''}`}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => onPlay(playlist, index)}
+                              className={`min-w-0 flex-1 py-1 ${direction === 'rtl' ? 'text-right' : 'text-left'}`}
+                            >
+                              <div className="truncate text-xs font-medium text-foreground">
+                                <span className="tabular-nums text-muted-foreground me-1">{index + 1}.</span>
+                                {surah}
+                              </div>
+                              <div className="truncate text-xs text-muted-foreground">{reciter}</div>
+                            </button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={async () => setPlaylists(await movePlaylistEntry(playlist.id, index, index - 1))}
+                              disabled={index === 0}
+                              aria-label={t.moveUp}
+                              className="h-7 w-7 shrink-0"
+                            >
+                              <ArrowUp className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={async () => setPlaylists(await movePlaylistEntry(playlist.id, index, index + 1))}
+                              disabled={index === playlist.entries.length - 1}
+                              aria-label={t.moveDown}
+                              className="h-7 w-7 shrink-0"
+                            >
+                              <ArrowDown className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={async () => setPlaylists(await removePlaylistEntry(playlist.id, entry.id))}
+                              aria-label={t.removeFromPlaylist}
+                              className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </Button>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
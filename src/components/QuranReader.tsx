@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2, ScrollText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSurahText } from '@/hooks/useSurahText';
+import { AyahTiming, findAyahIndex } from '@/lib/ayahTiming';
+import { audioService } from '@/lib/audioService';
+import { Surah } from '@/lib/mp3quranApi';
+import { storage } from '@/lib/storage';
+
+interface QuranReaderProps {
+  surah: Surah;
+  // Timings of the recitation playing this surah, or null when it isn't playing or has none
+  timings: AyahTiming[] | null;
+  currentTime: number;
+}
+
+const BASMALA = 'بِسْمِ ٱللَّهِ ٱلرَّحْمَـٰنِ ٱلرَّحِيمِ';
+// Al-Fatihah counts the basmala as its first ayah and At-Tawbah has none
+const SURAHS_WITHOUT_BASMALA_HEADER = [1, 9];
+
+const toArabicDigits = (value: number) =>
+  value.toString().replace(/\d/g, (digit) => String.fromCharCode(0x0660 + Number(digit)));
+
+export function QuranReader({ surah, timings, currentTime }: QuranReaderProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [isOpen, setIsOpen] = useState(false);
+  const { ayat, retry } = useSurahText(surah, isOpen);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    storage.get(['showQuranText']).then((result) => {
+      if (result.showQuranText === true) setIsOpen(true);
+    });
+  }, []);
+
+  const toggleOpen = () => {
+    setIsOpen(!isOpen);
+    storage.set({ showQuranText: !isOpen });
+  };
+
+  const currentIndex = timings ? findAyahIndex(timings, currentTime) : -1;
+  const currentAyah = currentIndex >= 0 && timings ? timings[currentIndex].ayah : null;
+
+  // Keep the recited ayah in view without scrolling the whole panel
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || currentAyah === null) return;
+    const element = container.querySelector<HTMLElement>(`[data-ayah="${currentAyah}"]`);
+    if (element) {
+      container.scrollTo({ top: element.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [currentAyah, ayat]);
+
+  const handleAyahClick = (ayah: number) => {
+    const timing = timings?.find((entry) => entry.ayah === ayah);
+    if (!timing) return;
+    audioService.setTime(timing.start).catch((error) => {
+      console.error('Error seeking to ayah:', error);
+    });
+  };
+
+  return (
+    <div className={`p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-quran-reader`}>
+      <button
+        type="button"
+        onClick={toggleOpen}
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between gap-2 text-sm font-medium text-foreground"
+      >
+        <span className="flex items-center gap-2">
+          <ScrollText className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+          {t.quranText}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4 text-muted-foreground" /> : <ChevronDown className="h-4 w-4 text-muted-foreground" />}
+      </button>
+
+      {isOpen && (
+        ayat === undefined ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : ayat === null ? (
+          <div className="flex items-center justify-between gap-2 mt-3 text-xs text-muted-foreground" role="alert">
+            <span>{t.quranTextUnavailable}</span>
+            <Button variant="outline" size="sm" onClick={retry} className="h-7 shrink-0">
+              {t.retry}
+            </Button>
+          </div>
+        ) : (
+          <div
+            ref={containerRef}
+            dir="rtl"
+            lang="ar"
+            className="relative mt-3 max-h-[360px] overflow-y-auto rounded-md bg-emerald-50/30 dark:bg-emerald-950/20 px-3 py-2 text-right font-quran text-xl leading-[2.4] text-foreground"
+          >
+            {!SURAHS_WITHOUT_BASMALA_HEADER.includes(surah.id) && (
+              <div className="text-center mb-1">{BASMALA}</div>
+            )}
+            {ayat.map((ayah, index) => {
+              const isCurrent = ayah.ayah === currentAyah;
+              const startsPage = index > 0 && ayah.page !== ayat[index - 1].page;
+              return (
+                <span key={ayah.ayah}>
+                  {startsPage && (
+                    <span className="flex items-center gap-2 my-1 text-[10px] leading-normal text-muted-foreground" dir={direction}>
+                      <span className="h-px flex-1 bg-emerald-100 dark:bg-emerald-900" />
+                      {t.mushafPage.replace('{page}', ayah.page.toString())}
+                      <span className="h-px flex-1 bg-emerald-100 dark:bg-emerald-900" />
+                    </span>
+                  )}
+                  <span
+                    data-ayah={ayah.ayah}
+                    onClick={() => handleAyahClick(ayah.ayah)}
+                    aria-current={isCurrent || undefined}
+                    className={`rounded px-0.5 ${isCurrent ? 'bg-emerald-200/70 dark:bg-emerald-800/60' : ''} ${timings ? 'cursor-pointer hover:bg-emerald-100/60 dark:hover:bg-emerald-900/40' : ''}`}
+                  >
+                    {ayah.text}
+                    <span className="text-emerald-700 dark:text-emerald-400"> ﴿{toArabicDigits(ayah.ayah)}﴾ </span>
+                  </span>
+                </span>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
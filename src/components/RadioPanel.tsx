@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Pause, Play, RadioTower, Search, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { AudioState, audioService, RadioStation } from '@/lib/audioService';
+import { getFavoriteStations, toggleFavoriteStation } from '@/lib/favorites';
+import { getCached } from '@/lib/metadataCache';
+import { mp3quranApi, Radio } from '@/lib/mp3quranApi';
+import { buildSearchIndex, search } from '@/lib/search';
+
+// Live stations from mp3quran, played through the offscreen document like recitations
+export function RadioPanel() {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [stations, setStations] = useState<Radio[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [favorites, setFavorites] = useState<number[]>([]);
+  const [query, setQuery] = useState('');
+  const [audioState, setAudioState] = useState<AudioState>(() => audioService.getCurrentState());
+  const [pendingStationId, setPendingStationId] = useState<number | null>(null);
+
+  useEffect(() => {
+    getFavoriteStations().then(setFavorites);
+    return audioService.onStateUpdate(setAudioState);
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setLoadFailed(false);
+    getCached(`radios:${language}`, () => mp3quranApi.getRadios(language, { signal: controller.signal }), {
+      onRevalidate: (data) => {
+        if (!controller.signal.aborted) setStations(data);
+      },
+    })
+      .then((data) => {
+        if (!controller.signal.aborted) setStations(data);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching radio stations:', error);
+        setLoadFailed(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [language, reloadKey]);
+
+  // Favourites first, each group in the API's order
+  const sortedStations = useMemo(() => [
+    ...stations.filter((station) => favorites.includes(station.id)),
+    ...stations.filter((station) => !favorites.includes(station.id)),
+  ], [stations, favorites]);
+  const index = useMemo(
+    () => buildSearchIndex(sortedStations.map((station) => ({ item: station, texts: [station.name] }))),
+    [sortedStations]
+  );
+  const results = useMemo(() => search(index, query), [index, query]);
+
+  const current = audioState.station;
+  // Reconnecting counts as playing: the listener hasn't paused
+  const isCurrentPlaying = !!current && (audioState.isPlaying || audioState.isReconnecting);
+  const isLive = !!current && audioState.isPlaying && !audioState.isReconnecting;
+
+  const handleToggleFavorite = async (stationId: number) => {
+    setFavorites(await toggleFavoriteStation(stationId));
+  };
+
+  const handlePlay = async (station: RadioStation) => {
+    setPendingStationId(station.id);
+    try {
+      await audioService.playStation({ id: station.id, name: station.name, url: station.url });
+    } catch (error) {
+      console.error('Error playing station:', error);
+      alert(t.stationFailed);
+    } finally {
+      setPendingStationId(null);
+    }
+  };
+
+  const handleToggle = async (station: RadioStation) => {
+    try {
+      if (current?.url === station.url && isCurrentPlaying) {
+        await audioService.pause();
+      } else if (current?.url === station.url) {
+        await audioService.play();
+      } else {
+        await handlePlay(station);
+      }
+    } catch (error) {
+      console.error('Error toggling station:', error);
+    }
+  };
+
+  const isActive = (station: Radio) => current?.url === station.url;
+  const isStationPlaying = (station: Radio) => isActive(station) && isCurrentPlaying;
+
+  return (
+    <div className={`p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-radio`}>
+      <div className="flex items-center gap-2 mb-3 text-sm font-medium text-foreground">
+        <RadioTower className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+        {t.radioStations}
+      </div>
+
+      {current && (
+        <div className="flex items-center gap-3 p-2.5 mb-3 rounded-md border border-emerald-100 dark:border-emerald-900 bg-emerald-50/50 dark:bg-emerald-950/30 section-radio-now-playing">
+          <Button
+            size="icon"
+            onClick={() => handleToggle(current)}
+            aria-label={isCurrentPlaying ? t.pause : t.play}
+            className="h-10 w-10 shrink-0 rounded-full bg-emerald-600 hover:bg-emerald-700 dark:bg-emerald-500 dark:hover:bg-emerald-600"
+          >
+            {isCurrentPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <div className="min-w-0 flex-1">
+            <div className="text-sm font-semibold text-foreground truncate">{current.name}</div>
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground" aria-live="polite">
+              {audioState.isReconnecting ? (
+                <>
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  {t.reconnecting}
+                </>
+              ) : isLive ? (
+                <>
+                  <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                  {t.live}
+                </>
+              ) : (
+                t.paused
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="relative mb-3">
+        <Search className={`absolute top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground ${direction === 'rtl' ? 'right-3' : 'left-3'}`} />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t.searchStations}
+          aria-label={t.searchStations}
+          dir={direction}
+          className={`h-9 ${direction === 'rtl' ? 'pr-9' : 'pl-9'}`}
+        />
+      </div>
+
+      {isLoading && stations.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : loadFailed && stations.length === 0 ? (
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground py-2" role="alert">
+          <span>{t.loadFailed}</span>
+          <Button variant="outline" size="sm" onClick={() => setReloadKey((key) => key + 1)} className="h-7 shrink-0">
+            {t.retry}
+          </Button>
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center py-2">{t.noMatches}</div>
+      ) : (
+        <ul className="flex flex-col gap-1.5 max-h-[420px] overflow-y-auto">
+          {results.map((station) => {
+            const isFavorite = favorites.includes(station.id);
+            return (
+              <li
+                key={station.id}
+                className={`flex items-center gap-2 p-2 rounded-md border ${isActive(station) ? 'border-emerald-300 dark:border-emerald-700' : 'border-border hover:border-emerald-200 dark:hover:border-emerald-800'}`}
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleToggle(station)}
+                  disabled={pendingStationId !== null}
+                  aria-label={`${isStationPlaying(station) ? t.pause : t.play}: ${station.name}`}
+                  className="h-8 w-8 shrink-0 text-emerald-600 dark:text-emerald-400"
+                >
+                  {pendingStationId === station.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : isStationPlaying(station) ? (
+                    <Pause className="h-4 w-4" />
+                  ) : (
+                    <Play className="h-4 w-4" />
+                  )}
+                </Button>
+                <span className="min-w-0 flex-1 truncate text-sm text-foreground">{station.name}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleToggleFavorite(station.id)}
+                  title={isFavorite ? t.removeFavoriteStation : t.addFavoriteStation}
+                  aria-label={isFavorite ? t.removeFavoriteStation : t.addFavoriteStation}
+                  aria-pressed={isFavorite}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-amber-500"
+                >
+                  <Star className={`h-3.5 w-3.5 ${isFavorite ? 'fill-amber-400 text-amber-400' : ''}`} />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { History, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  clearRecentlyPlayed,
+  getRecentlyPlayed,
+  onRecentlyPlayedChanged,
+  RecentEntry,
+  removeRecentlyPlayed,
+} from '@/lib/recentlyPlayed';
+import { formatTime } from '@/lib/utils';
+
+interface RecentlyPlayedPanelProps {
+  describe: (entry: Pick<RecentEntry, 'reciterId' | 'moshafId' | 'surahId'>) => { surah: string; reciter: string };
+  onPlay: (entry: RecentEntry) => void;
+}
+
+export function RecentlyPlayedPanel({ describe, onPlay }: RecentlyPlayedPanelProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const [entries, setEntries] = useState<RecentEntry[]>([]);
+
+  // The offscreen player records entries, so follow storage rather than our own writes
+  useEffect(() => {
+    getRecentlyPlayed().then(setEntries);
+    return onRecentlyPlayedChanged(setEntries);
+  }, []);
+
+  const handleRemove = async (entry: RecentEntry) => {
+    try {
+      setEntries(await removeRecentlyPlayed(entry.moshafId, entry.surahId));
+    } catch (error) {
+      console.error('Error removing recently played entry:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearRecentlyPlayed();
+      setEntries([]);
+    } catch (error) {
+      console.error('Error clearing recently played:', error);
+    }
+  };
+
+  return (
+    <div className={`p-3 sm:p-4 border border-emerald-100 dark:border-emerald-900 rounded-lg bg-white/50 dark:bg-gray-900/50 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-recently-played`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <History className="h-4 w-4 text-emerald-600 dark:text-emerald-500" />
+          {t.recentlyPlayed}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          className="h-8 px-2 text-muted-foreground hover:text-foreground"
+        >
+          {t.clearRecentlyPlayed}
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center py-2">{t.noRecentlyPlayed}</div>
+      ) : (
+        <ul className="flex flex-col gap-1.5 max-h-[240px] overflow-y-auto">
+          {entries.map((entry) => {
+            const { surah, reciter } = describe(entry);
+            return (
+              <li
+                key={`${entry.moshafId}:${entry.surahId}`}
+                className="flex items-center gap-2 p-2 rounded-md border border-border hover:border-emerald-200 dark:hover:border-emerald-800"
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onPlay(entry)}
+                  title={t.playRecent}
+                  aria-label={`${t.playRecent}: ${surah}`}
+                  className="h-8 w-8 shrink-0 text-emerald-600 dark:text-emerald-400"
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                    <span className="truncate">{surah}</span>
+                    {entry.time > 0 && (
+                      <span className="tabular-nums text-xs text-muted-foreground shrink-0">{formatTime(entry.time)}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{reciter}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(entry)}
+                  title={t.removeRecent}
+                  aria-label={t.removeRecent}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { Moon } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { audioService, SleepTimerSettings, SleepTimerState } from '@/lib/audioService';
+import { formatTime } from '@/lib/utils';
+
+interface SleepTimerControlProps {
+  sleepTimer: SleepTimerState | null;
+}
+
+const OPTIONS: { value: string; settings: SleepTimerSettings | null }[] = [
+  { value: 'off', settings: null },
+  { value: '15', settings: { mode: 'duration', minutes: 15 } },
+  { value: '30', settings: { mode: 'duration', minutes: 30 } },
+  { value: '60', settings: { mode: 'duration', minutes: 60 } },
+  { value: 'endOfSurah', settings: { mode: 'endOfSurah' } },
+  { value: 'after2', settings: { mode: 'afterSurahs', count: 2 } },
+  { value: 'after3', settings: { mode: 'afterSurahs', count: 3 } },
+  { value: 'after5', settings: { mode: 'afterSurahs', count: 5 } },
+];
+
+export function SleepTimerControl({ sleepTimer }: SleepTimerControlProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+
+  const optionLabel = (settings: SleepTimerSettings | null) => {
+    if (!settings) return t.sleepTimerOff;
+    switch (settings.mode) {
+      case 'duration':
+        return `${settings.minutes} ${t.minutes}`;
+      case 'endOfSurah':
+        return t.endOfSurah;
+      case 'afterSurahs':
+        return t.afterSurahs.replace('{count}', settings.count.toString());
+    }
+  };
+
+  // Match the active timer back to its preset
+  const selected = sleepTimer
+    ? OPTIONS.find((o) => JSON.stringify(o.settings) === JSON.stringify(sleepTimer.settings))?.value
+    : 'off';
+
+  const handleChange = async (value: string) => {
+    const option = OPTIONS.find((o) => o.value === value);
+    try {
+      if (option?.settings) {
+        await audioService.setSleepTimer(option.settings);
+      } else {
+        await audioService.cancelSleepTimer();
+      }
+    } catch (error) {
+      console.error('Error updating sleep timer:', error);
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${direction === 'rtl' ? 'flex-row-reverse' : ''} section-sleep-timer`}>
+      <Moon className={`h-4 w-4 shrink-0 ${sleepTimer ? 'text-emerald-600 dark:text-emerald-400' : 'text-muted-foreground'}`} />
+      <Select value={selected} onValueChange={handleChange}>
+        <SelectTrigger className="h-8 w-auto min-w-[110px] text-xs" dir={direction} aria-label={t.sleepTimer}>
+          <SelectValue placeholder={t.sleepTimer} />
+        </SelectTrigger>
+        <SelectContent dir={direction}>
+          {OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value} dir={direction}>
+              {optionLabel(option.settings)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {sleepTimer && (
+        <span className="text-xs text-muted-foreground tabular-nums">
+          {sleepTimer.remainingSeconds !== null
+            ? formatTime(sleepTimer.remainingSeconds)
+            : `${t.surahsLeft}: ${sleepTimer.remainingSurahs}`}
+        </span>
+      )}
+    </div>
+  );
+}
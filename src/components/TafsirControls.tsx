@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { BookOpenText, Loader2, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { audioService, QueueItem, TafsirInterleaveSettings } from '@/lib/audioService';
+import { Tafsir } from '@/lib/mp3quranApi';
+import { DEFAULT_TAFSIR_ID, tafsirToQueue } from '@/lib/tafsir';
+
+interface TafsirControlsProps {
+  // Tafsir for the selected surah: undefined while loading, null when unavailable
+  tafsir: Tafsir | null | undefined;
+  // The selected recitation the tafsir belongs to
+  recitation: Pick<QueueItem, 'reciterId' | 'moshafId' | 'surahId'>;
+  interleave: TafsirInterleaveSettings | null;
+  onPlay: (items: QueueItem[], startIndex: number) => void;
+}
+
+export function TafsirControls({ tafsir, recitation, interleave, onPlay }: TafsirControlsProps) {
+  const { language, t } = useLanguage();
+  const direction = language === 'ar' ? 'rtl' : 'ltr';
+  const items = tafsir ? tafsirToQueue(tafsir, recitation) : [];
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [tafsir]);
+
+  const handleInterleaveChange = (enabled: boolean) => {
+    audioService
+      .setTafsirInterleave(enabled ? { tafsirId: tafsir?.soar[0]?.tafsir_id ?? DEFAULT_TAFSIR_ID, language } : null)
+      .catch((error) => {
+        console.error('Error updating tafsir setting:', error);
+      });
+  };
+
+  return (
+    <div className={`mt-3 pt-3 border-t border-emerald-100 dark:border-emerald-900 ${direction === 'rtl' ? 'text-right' : 'text-left'} section-tafsir`}>
+      <div className="flex items-center gap-2 mb-2 text-xs font-medium text-foreground">
+        <BookOpenText className="h-3.5 w-3.5 text-emerald-600 dark:text-emerald-500" />
+        <span className="truncate">{tafsir?.name || t.tafsir}</span>
+      </div>
+
+      {tafsir === undefined ? (
+        <div className="flex justify-center py-1">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center">{t.noTafsir}</div>
+      ) : (
+        <div className="flex items-center gap-2">
+          {items.length > 1 ? (
+            <Select value={selectedIndex.toString()} onValueChange={(value) => setSelectedIndex(parseInt(value))}>
+              <SelectTrigger className="h-8 flex-1 min-w-0 text-xs" dir={direction} aria-label={t.tafsirRecording}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-[240px] max-w-[90vw]" dir={direction}>
+                {items.map((item, index) => (
+                  <SelectItem key={item.tafsir?.id ?? index} value={index.toString()} dir={direction}>
+                    <span className="truncate">{item.tafsir?.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <span className="flex-1 min-w-0 truncate text-xs text-muted-foreground">{items[0].tafsir?.name}</span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPlay(items, selectedIndex)}
+            className="h-8 shrink-0 border-emerald-200 dark:border-emerald-800 hover:border-emerald-400 dark:hover:border-emerald-600 hover:text-emerald-600 dark:hover:text-emerald-400"
+          >
+            <Play className="h-3.5 w-3.5 me-1.5" />
+            {t.playTafsir}
+          </Button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 mt-2 text-xs text-muted-foreground cursor-pointer">
+        <input
+          type="checkbox"
+          checked={interleave !== null}
+          onChange={(e) => handleInterleaveChange(e.target.checked)}
+          className="h-3.5 w-3.5 accent-emerald-600"
+        />
+        {t.tafsirAfterEachSurah}
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import * as React from "react"
+import { Check, ChevronDown, Search } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { buildSearchIndex, search } from "@/lib/search"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+export interface ComboboxOption {
+  value: string
+  label: string
+  number?: number // Matched by digit queries, e.g. a surah number
+  keywords?: string[] // Other names to match, e.g. a transliteration
+  hint?: string // Muted text after the label
+  icon?: React.ReactNode // Shown before the label, e.g. to mark pinned options
+  group?: string // Heading shown above consecutive options of the same group while not searching
+  disabled?: boolean
+}
+
+interface ComboboxProps {
+  options: ComboboxOption[]
+  value: string
+  onValueChange: (value: string) => void
+  placeholder?: string
+  searchPlaceholder?: string
+  emptyText?: string
+  dir?: "ltr" | "rtl"
+  className?: string
+  "aria-label"?: string
+}
+
+// Select-like picker with a search box, following the WAI-ARIA combobox pattern
+// The popover handles positioning, dismissal and focus return; the search box drives the list
+// Options should be memoised by the caller; the search index is rebuilt when they change
+const Combobox = ({
+  options,
+  value,
+  onValueChange,
+  placeholder,
+  searchPlaceholder,
+  emptyText,
+  dir,
+  className,
+  "aria-label": ariaLabel,
+}: ComboboxProps) => {
+  const effectiveDir = dir || (typeof document !== "undefined" ? document.documentElement.dir : "ltr") as "ltr" | "rtl"
+  const isRtl = effectiveDir === "rtl"
+  const id = React.useId()
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState("")
+  const [activeIndex, setActiveIndex] = React.useState(-1)
+
+  const index = React.useMemo(
+    () => buildSearchIndex(options.map((option) => ({
+      item: option,
+      number: option.number,
+      texts: [option.label, ...(option.keywords ?? [])],
+    }))),
+    [options]
+  )
+  const results = React.useMemo(() => search(index, query), [index, query])
+  const selected = options.find((option) => option.value === value)
+
+  const optionId = (position: number) => `${id}-option-${position}`
+
+  // Next enabled result from position in the given direction, or -1
+  const findEnabled = React.useCallback((position: number, step: 1 | -1) => {
+    for (let i = position; i >= 0 && i < results.length; i += step) {
+      if (!results[i].disabled) return i
+    }
+    return -1
+  }, [results])
+
+  const openWith = (initialQuery: string) => {
+    setQuery(initialQuery)
+    setOpen(true)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (!nextOpen) setQuery("")
+  }
+
+  const choose = (option: ComboboxOption) => {
+    if (option.disabled) return
+    handleOpenChange(false)
+    if (option.value !== value) onValueChange(option.value)
+  }
+
+  // Highlight the selected option (or the best match) whenever the results change
+  React.useEffect(() => {
+    if (!open) return
+    const selectedPosition = query ? -1 : results.findIndex((option) => option.value === value)
+    setActiveIndex(selectedPosition >= 0 ? selectedPosition : findEnabled(0, 1))
+  }, [open, results, query, value, findEnabled])
+
+  React.useEffect(() => {
+    if (activeIndex >= 0) {
+      document.getElementById(`${id}-option-${activeIndex}`)?.scrollIntoView({ block: "nearest" })
+    }
+  }, [activeIndex, id])
+
+  const handleTriggerKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault()
+      openWith("")
+    } else if (e.key.length === 1 && e.key !== " " && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      // Start searching straight from the closed picker
+      e.preventDefault()
+      openWith(e.key)
+    }
+  }
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown": {
+        e.preventDefault()
+        const next = findEnabled(activeIndex + 1, 1)
+        if (next >= 0) setActiveIndex(next)
+        break
+      }
+      case "ArrowUp": {
+        e.preventDefault()
+        const previous = findEnabled(activeIndex - 1, -1)
+        if (previous >= 0) setActiveIndex(previous)
+        break
+      }
+      case "PageDown":
+      case "PageUp": {
+        e.preventDefault()
+        const target = e.key === "PageDown"
+          ? findEnabled(Math.min(results.length - 1, activeIndex + 10), -1)
+          : findEnabled(Math.max(0, activeIndex - 10), 1)
+        if (target >= 0) setActiveIndex(target)
+        break
+      }
+      case "Home":
+      case "End":
+        // Only take over when the query is empty, so the caret keys still edit the text
+        if (!query) {
+          e.preventDefault()
+          setActiveIndex(e.key === "Home" ? findEnabled(0, 1) : findEnabled(results.length - 1, -1))
+        }
+        break
+      case "Enter":
+        e.preventDefault()
+        if (results[activeIndex]) choose(results[activeIndex])
+        break
+    }
+  }
+
+  const listboxId = `${id}-listbox`
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-haspopup="listbox"
+          aria-label={ariaLabel}
+          onKeyDown={handleTriggerKeyDown}
+          dir={effectiveDir}
+          className={cn(
+            "flex h-10 w-full items-center justify-between gap-2 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 min-w-0",
+            isRtl ? "text-right" : "text-left",
+            className
+          )}
+        >
+          <span className={cn("block min-w-0 flex-1 truncate", !selected && "text-muted-foreground")}>
+            {selected ? selected.label : placeholder}
+          </span>
+          <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent
+        align="start"
+        dir={effectiveDir}
+        className="w-[var(--radix-popover-trigger-width)] max-w-[90vw] overflow-hidden p-0"
+      >
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="h-4 w-4 shrink-0 opacity-50" />
+          <input
+            role="combobox"
+            aria-expanded={open}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={activeIndex >= 0 ? optionId(activeIndex) : undefined}
+            aria-label={ariaLabel}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder={searchPlaceholder}
+            dir={effectiveDir}
+            className="flex h-10 w-full bg-transparent py-2 text-sm outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+        <ul id={listboxId} role="listbox" aria-label={ariaLabel} className="max-h-[300px] overflow-y-auto p-1">
+          {results.length === 0 ? (
+            <li className="py-4 text-center text-sm text-muted-foreground">{emptyText}</li>
+          ) : (
+            results.map((option, position) => (
+              <React.Fragment key={option.value}>
+                {!query && option.group && option.group !== results[position - 1]?.group && (
+                  <li role="presentation" className="px-2 pt-2 pb-1 text-xs font-semibold text-muted-foreground">
+                    {option.group}
+                  </li>
+                )}
+                <li
+                  id={optionId(position)}
+                  role="option"
+                  aria-selected={option.value === value}
+                  aria-disabled={option.disabled || undefined}
+                  onPointerMove={() => !option.disabled && setActiveIndex(position)}
+                  onClick={() => choose(option)}
+                  className={cn(
+                    "relative flex w-full cursor-default select-none items-center gap-1.5 rounded-sm py-1.5 text-sm",
+                    isRtl ? "pr-8 pl-2 text-right" : "pl-8 pr-2 text-left",
+                    position === activeIndex && "bg-accent text-accent-foreground",
+                    option.disabled && "pointer-events-none opacity-50"
+                  )}
+                >
+                  {option.value === value && (
+                    <span className={cn("absolute flex h-3.5 w-3.5 items-center justify-center", isRtl ? "right-2" : "left-2")}>
+                      <Check className="h-4 w-4" />
+                    </span>
+                  )}
+                  {option.icon}
+                  <span className="truncate min-w-0">{option.label}</span>
+                  {option.hint && <span className="shrink-0 text-xs text-muted-foreground">({option.hint})</span>}
+                </li>
+              </React.Fragment>
+            ))
+          )}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export { Combobox }
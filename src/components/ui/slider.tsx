@@ -0,0 +1,152 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+
+export interface SliderProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "defaultValue" | "onChange"> {
+  value: number
+  min?: number
+  max: number
+  // Arrow keys move by step, Page Up/Down by largeStep
+  step: number
+  largeStep?: number
+  disabled?: boolean
+  thumbClassName?: string
+  // Called on every change while dragging or pressing keys
+  onValueChange: (value: number) => void
+  // Called once the change is done: pointer released, or after each key press
+  onValueCommit?: (value: number) => void
+}
+
+// A horizontal track with slider semantics, driven by pointer (mouse, touch, pen) and keyboard
+// Children are drawn over the track, between the fill and the thumb
+const Slider = React.forwardRef<HTMLDivElement, SliderProps>(
+  (
+    {
+      value,
+      min = 0,
+      max,
+      step,
+      largeStep = step * 10,
+      disabled,
+      className,
+      thumbClassName,
+      children,
+      onValueChange,
+      onValueCommit,
+      ...props
+    },
+    ref
+  ) => {
+    const [isDragging, setIsDragging] = React.useState(false)
+    const draggedValueRef = React.useRef(value)
+    const range = max - min
+    const percent = range > 0 ? ((Math.min(Math.max(value, min), max) - min) / range) * 100 : 0
+
+    const clamp = (next: number) => Math.min(Math.max(next, min), max)
+
+    const valueAt = (element: HTMLElement, clientX: number) => {
+      const rect = element.getBoundingClientRect()
+      const fraction = rect.width > 0 ? Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) : 0
+      return min + fraction * range
+    }
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (disabled || range <= 0 || (e.pointerType === "mouse" && e.button !== 0)) return
+      e.currentTarget.setPointerCapture(e.pointerId)
+      e.currentTarget.focus()
+      setIsDragging(true)
+      draggedValueRef.current = valueAt(e.currentTarget, e.clientX)
+      onValueChange(draggedValueRef.current)
+    }
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!isDragging) return
+      draggedValueRef.current = valueAt(e.currentTarget, e.clientX)
+      onValueChange(draggedValueRef.current)
+    }
+
+    const endDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!isDragging) return
+      setIsDragging(false)
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+        e.currentTarget.releasePointerCapture(e.pointerId)
+      }
+      onValueCommit?.(draggedValueRef.current)
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (disabled || range <= 0) return
+      let next: number
+      switch (e.key) {
+        case "ArrowRight":
+        case "ArrowUp":
+          next = value + step
+          break
+        case "ArrowLeft":
+        case "ArrowDown":
+          next = value - step
+          break
+        case "PageUp":
+          next = value + largeStep
+          break
+        case "PageDown":
+          next = value - largeStep
+          break
+        case "Home":
+          next = min
+          break
+        case "End":
+          next = max
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+      next = clamp(next)
+      onValueChange(next)
+      onValueCommit?.(next)
+    }
+
+    return (
+      <div
+        ref={ref}
+        role="slider"
+        tabIndex={disabled ? -1 : 0}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={Math.round(clamp(value) * 100) / 100}
+        aria-orientation="horizontal"
+        aria-disabled={disabled || undefined}
+        dir="ltr"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onKeyDown={handleKeyDown}
+        className={cn(
+          "group relative h-1.5 bg-muted rounded-full touch-none select-none ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+          disabled ? "cursor-not-allowed opacity-50" : "cursor-pointer",
+          className
+        )}
+        {...props}
+      >
+        <div
+          className="absolute left-0 top-0 h-full bg-emerald-600 dark:bg-emerald-500 rounded-full pointer-events-none"
+          style={{ width: `${percent}%` }}
+        />
+        {children}
+        <div
+          className={cn(
+            "absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-2.5 h-2.5 bg-emerald-600 dark:bg-emerald-500 rounded-full border-2 border-background pointer-events-none transition-opacity group-hover:opacity-100 group-focus-visible:opacity-100",
+            isDragging ? "opacity-100" : "opacity-0",
+            thumbClassName
+          )}
+          style={{ left: `${percent}%` }}
+        />
+      </div>
+    )
+  }
+)
+Slider.displayName = "Slider"
+
+export { Slider }
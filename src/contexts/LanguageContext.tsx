@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Language, getTranslation, Translations } from '@/lib/i18n';
+import { Language, getTranslation, loadLanguagePreference, Translations } from '@/lib/i18n';
 import { storage } from '@/lib/storage';
 
 interface LanguageContextType {
@@ -18,16 +18,8 @@ export const LanguageProvider = ({ children }: { children: ReactNode }) => {
   // Load saved language preference
   useEffect(() => {
     const loadLanguage = async () => {
-      const result = await storage.get(['language']);
-      if (result.language && (result.language === 'ar' || result.language === 'en')) {
-        setLanguageState(result.language);
-      } else {
-        // Detect browser language
-        const browserLang = navigator.language.split('-')[0];
-        if (browserLang === 'ar') {
-          setLanguageState('ar');
-        }
-      }
+      // Falls back to the browser language
+      setLanguageState(await loadLanguagePreference());
       setIsLanguageLoaded(true);
     };
     loadLanguage();
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { Language } from '@/lib/i18n';
+import { getCached } from '@/lib/metadataCache';
+import { mp3quranApi } from '@/lib/mp3quranApi';
+
+export interface AlternateNames {
+  reciters: Record<number, string>;
+  surahs: Record<number, string>;
+}
+
+const EMPTY: AlternateNames = { reciters: {}, surahs: {} };
+
+// Reciter and surah names in the other UI language, so pickers also match
+// Latin transliterations in Arabic and Arabic names in English
+// Loaded from the shared metadata cache once enabled; empty until then or on failure
+export function useAlternateNames(language: Language, enabled: boolean) {
+  const [names, setNames] = useState<AlternateNames>(EMPTY);
+
+  useEffect(() => {
+    setNames(EMPTY);
+    if (!enabled) return;
+
+    const other: Language = language === 'ar' ? 'en' : 'ar';
+    const controller = new AbortController();
+    const toRecord = (items: { id: number; name: string }[]) =>
+      Object.fromEntries(items.map((item) => [item.id, item.name]));
+
+    Promise.all([
+      getCached(`reciters:${other}`, () => mp3quranApi.getReciters(other, { signal: controller.signal })),
+      getCached(`suwar:${other}`, () => mp3quranApi.getSuwar(other, { signal: controller.signal })),
+    ])
+      .then(([reciters, surahs]) => {
+        if (!controller.signal.aborted) {
+          setNames({ reciters: toRecord(reciters), surahs: toRecord(surahs) });
+        }
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.warn('Alternate names unavailable for search:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [language, enabled]);
+
+  return names;
+}
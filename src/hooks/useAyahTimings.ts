@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { AyahTiming, getTimingSource } from '@/lib/ayahTiming';
+
+// Ayah timings for a moshaf/surah: undefined while loading, null when the recitation has none
+export function useAyahTimings(moshaf: { id: number; server: string } | null, surahId: number | null) {
+  const [timings, setTimings] = useState<AyahTiming[] | null | undefined>(undefined);
+  const moshafId = moshaf?.id ?? null;
+  const server = moshaf?.server ?? null;
+
+  useEffect(() => {
+    setTimings(undefined);
+    if (moshafId === null || server === null || surahId === null) return;
+
+    let cancelled = false;
+    getTimingSource()
+      .getTimings({ moshafId, server }, surahId)
+      .then((result) => {
+        if (!cancelled) setTimings(result);
+      })
+      .catch((error) => {
+        // Fall back to whole-surah playback
+        console.warn('Ayah timing unavailable:', error);
+        if (!cancelled) setTimings(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [moshafId, server, surahId]);
+
+  return timings;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { audioService } from '@/lib/audioService';
+import { DownloadItem } from '@/lib/downloads';
+
+// Downloads tracked by the offscreen document, kept current as progress is pushed
+export function useDownloads() {
+  const [downloads, setDownloads] = useState<DownloadItem[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = audioService.onDownloadsUpdate(setDownloads);
+    audioService
+      .getDownloads()
+      .then((result) => {
+        if (!cancelled) setDownloads(result);
+      })
+      .catch((error) => {
+        console.warn('Downloads unavailable:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return downloads;
+}
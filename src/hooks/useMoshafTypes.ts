@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { Language } from '@/lib/i18n';
+import { getCached } from '@/lib/metadataCache';
+import { MoshafType, mp3quranApi, Riwaya } from '@/lib/mp3quranApi';
+
+export interface MoshafTypeMetadata {
+  moshafTypes: MoshafType[];
+  riwayat: Riwaya[];
+}
+
+const EMPTY: MoshafTypeMetadata = { moshafTypes: [], riwayat: [] };
+
+// Riwayat and moshaf types for the reciter filters, from the shared metadata cache
+// Empty while loading or when the API is unavailable, which hides the filters
+export function useMoshafTypes(language: Language) {
+  const [metadata, setMetadata] = useState<MoshafTypeMetadata>(EMPTY);
+
+  useEffect(() => {
+    setMetadata(EMPTY);
+    const controller = new AbortController();
+
+    Promise.all([
+      getCached(`moshafTypes:${language}`, () => mp3quranApi.getMoshafTypes(language, { signal: controller.signal })),
+      getCached(`riwayat:${language}`, () => mp3quranApi.getRiwayat(language, { signal: controller.signal })),
+    ])
+      .then(([moshafTypes, riwayat]) => {
+        if (!controller.signal.aborted) {
+          setMetadata({ moshafTypes, riwayat });
+        }
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.warn('Riwayat unavailable for filtering:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [language]);
+
+  return metadata;
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+
+export interface PlayerShortcutActions {
+  togglePlayback: () => void;
+  seekBy: (seconds: number) => void;
+  toggleMute: () => void;
+  next: () => void;
+  previous: () => void;
+}
+
+const SEEK_STEP_SECONDS = 10;
+
+// Focus targets that take typed keys themselves, and those that already act on Space
+const TEXT_ENTRY_SELECTOR = 'input, textarea, select, [contenteditable="true"], [role="combobox"], [role="listbox"]';
+const SPACE_ACTIVATED_SELECTOR = 'button, a[href], summary, [role="button"], [role="slider"], [role="option"], [role="tab"]';
+
+const isWithin = (target: EventTarget | null, selector: string) =>
+  target instanceof Element && target.closest(selector) !== null;
+
+// Panel-wide media keys in the style of video players: Space/K play-pause, J/L back/forward 10 s,
+// M mute, Shift+N/Shift+P next/previous surah
+// Matched on the physical key, so they also work with an Arabic keyboard layout
+export function usePlayerShortcuts(actions: PlayerShortcutActions, enabled: boolean) {
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isWithin(e.target, TEXT_ENTRY_SELECTOR)) return;
+
+      const current = actionsRef.current;
+      let action: (() => void) | null = null;
+      switch (e.code) {
+        case 'Space':
+          if (!isWithin(e.target, SPACE_ACTIVATED_SELECTOR)) action = current.togglePlayback;
+          break;
+        case 'KeyK':
+          action = current.togglePlayback;
+          break;
+        case 'KeyJ':
+          action = () => current.seekBy(-SEEK_STEP_SECONDS);
+          break;
+        case 'KeyL':
+          action = () => current.seekBy(SEEK_STEP_SECONDS);
+          break;
+        case 'KeyM':
+          action = current.toggleMute;
+          break;
+        case 'KeyN':
+          if (e.shiftKey) action = current.next;
+          break;
+        case 'KeyP':
+          if (e.shiftKey) action = current.previous;
+          break;
+      }
+      if (!action) return;
+
+      e.preventDefault();
+      // Holding a key repeats seeking, but not toggles or skips
+      if (e.repeat && e.code !== 'KeyJ' && e.code !== 'KeyL') return;
+      action();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
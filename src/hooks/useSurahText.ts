@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { Surah } from '@/lib/mp3quranApi';
+import { AyahText, getSurahText } from '@/lib/quranText';
+
+// Text of a surah: undefined while loading (or not requested), null when it couldn't be loaded
+export function useSurahText(surah: Surah | null, enabled: boolean) {
+  const [ayat, setAyat] = useState<AyahText[] | null | undefined>(undefined);
+  const [attempt, setAttempt] = useState(0);
+  // The surah object changes with the language; its id and pages don't
+  const surahId = surah?.id ?? null;
+  const startPage = surah?.start_page ?? null;
+  const endPage = surah?.end_page ?? null;
+
+  useEffect(() => {
+    setAyat(undefined);
+    if (surahId === null || startPage === null || endPage === null || !enabled) return;
+
+    const controller = new AbortController();
+    getSurahText({ id: surahId, start_page: startPage, end_page: endPage }, { signal: controller.signal })
+      .then((result) => {
+        if (!controller.signal.aborted) setAyat(result.length > 0 ? result : null);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.warn('Quran text unavailable:', error);
+        setAyat(null);
+      });
+
+    return () => controller.abort();
+  }, [surahId, startPage, endPage, enabled, attempt]);
+
+  return { ayat, retry: () => setAttempt((count) => count + 1) };
+}
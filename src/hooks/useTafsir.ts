@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { Language } from '@/lib/i18n';
+import { Tafsir } from '@/lib/mp3quranApi';
+import { getSurahTafsir } from '@/lib/tafsir';
+
+// The default tafsir's recordings for a surah: undefined while loading, null when unavailable
+export function useTafsir(language: Language, surahId: number | null) {
+  const [tafsir, setTafsir] = useState<Tafsir | null | undefined>(undefined);
+
+  useEffect(() => {
+    setTafsir(undefined);
+    if (surahId === null) return;
+
+    const controller = new AbortController();
+    getSurahTafsir(language, surahId, undefined, { signal: controller.signal })
+      .then((result) => {
+        if (!controller.signal.aborted) setTafsir(result);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.warn('Tafsir unavailable:', error);
+        setTafsir(null);
+      });
+
+    return () => controller.abort();
+  }, [language, surahId]);
+
+  return tafsir;
+}
@@ -0,0 +1,57 @@
+/**
+ * Toolbar badge and tooltip showing what the player is doing
+ * The offscreen document can't use chrome.action, so it reports a PlayerStatus
+ * to the background worker whenever it changes
+ */
+
+import type { AudioState, QueueItem, RadioStation } from './audioService';
+import { getTranslation, loadLanguagePreference } from './i18n';
+import { describeQueueItem } from './nowPlaying';
+
+export interface PlayerStatus {
+  item: QueueItem | null;
+  station: RadioStation | null;
+  isPlaying: boolean;
+}
+
+// Reconnecting counts as playing: the listener hasn't paused
+export const toPlayerStatus = (state: AudioState): PlayerStatus => ({
+  item: state.station ? null : state.currentItem,
+  station: state.station,
+  isPlaying: state.isPlaying || state.isReconnecting,
+});
+
+const PLAYING_BADGE_COLOR = '#059669';
+const PAUSED_BADGE_COLOR = '#6b7280';
+
+// Status updates describe the item asynchronously; only the latest one is applied
+let latestUpdate = 0;
+
+// Badge: surah number, or a live marker for a station; green while playing, grey when paused
+// Tooltip: the extension title, then what is playing or paused
+export async function showPlayerStatus(status: PlayerStatus): Promise<void> {
+  const update = ++latestUpdate;
+  const language = await loadLanguagePreference();
+  const t = getTranslation(language);
+
+  let badge = '';
+  let details: string | null = null;
+  if (status.station) {
+    badge = t.liveBadge;
+    details = `${status.station.name} · ${t.live}`;
+  } else if (status.item) {
+    badge = status.item.surahId.toString();
+    const { title, artist } = await describeQueueItem(status.item, language);
+    details = `${title} · ${artist}`;
+  }
+  if (update !== latestUpdate) return;
+
+  const title = details
+    ? `${t.title}\n${(status.isPlaying ? t.actionPlaying : t.actionPaused).replace('{details}', details)}`
+    : t.title;
+  await Promise.all([
+    chrome.action.setBadgeText({ text: badge }),
+    chrome.action.setBadgeBackgroundColor({ color: status.isPlaying ? PLAYING_BADGE_COLOR : PAUSED_BADGE_COLOR }),
+    chrome.action.setTitle({ title }),
+  ]);
+}
@@ -1,50 +1,233 @@
 // Audio service to communicate with offscreen document
 // This allows audio to continue playing when side panel is closed
 
+import {
+  AUDIO_PORT_NAME,
+  OffscreenEvent,
+  OffscreenRequest,
+  OffscreenRequests,
+  OffscreenResponse,
+  PortClientMessage,
+  PortServerMessage,
+  send,
+} from './protocol';
+import type { DownloadItem } from './downloads';
+import type { Language } from './i18n';
+
+// A tafsir (audio commentary) recording for a surah
+export interface TafsirInfo {
+  id: number; // Recording id
+  tafsirId: number;
+  name: string;
+}
+
+// A single entry in the playback queue owned by the offscreen document
+// Recitations carry the moshaf they belong to; tafsir entries also carry the recording
+// and keep the recitation's reciter and moshaf so the selectors stay put
+export interface QueueItem {
+  reciterId: number;
+  moshafId: number;
+  surahId: number;
+  url: string;
+  tafsir?: TafsirInfo;
+}
+
+// Follow every finished recitation with the surah's tafsir
+export interface TafsirInterleaveSettings {
+  tafsirId: number;
+  language: Language;
+}
+
+// A live radio stream; it has no duration and can't be seeked
+export interface RadioStation {
+  id: number;
+  name: string;
+  url: string;
+}
+
+export interface AudioQueue {
+  items: QueueItem[];
+  index: number;
+}
+
+// A–B repeat range requested by the panel
+export interface LoopSettings {
+  start: number;
+  end: number;
+  repeatCount: number | null; // Total plays of the range, null = forever
+  pauseSeconds: number; // Silence between repetitions
+}
+
+// Active A–B repeat as enforced by the offscreen player
+export interface AudioLoop extends LoopSettings {
+  remaining: number | null; // Repetitions left after the current one, null = forever
+}
+
+// Sleep timer requested by the panel
+export type SleepTimerSettings =
+  | { mode: 'duration'; minutes: number }
+  | { mode: 'endOfSurah' }
+  | { mode: 'afterSurahs'; count: number };
+
+// Active sleep timer as tracked by the offscreen player
+export interface SleepTimerState {
+  settings: SleepTimerSettings;
+  remainingSeconds: number | null; // null while more than one surah is left
+  remainingSurahs: number | null; // Including the current one; null for 'duration'
+}
+
 export interface AudioState {
   isPlaying: boolean;
   currentTime: number;
   duration: number;
   volume: number;
   isMuted: boolean;
+  playbackRate: number;
+  queueIndex: number;
+  queueLength: number;
+  currentItem: QueueItem | null;
+  loop: AudioLoop | null;
+  sleepTimer: SleepTimerState | null;
+  station: RadioStation | null; // Set while a radio stream is loaded instead of the queue
+  isReconnecting: boolean; // The stream dropped and is being reopened
+  tafsirInterleave: TafsirInterleaveSettings | null;
+}
+
+// Build the MP3 URL for a surah on a moshaf server (e.g. ".../001.mp3")
+export function buildSurahUrl(server: string, surahId: number): string {
+  return `${server}${surahId.toString().padStart(3, '0')}.mp3`;
 }
 
 type AudioStateListener = (state: AudioState) => void;
+type DownloadsListener = (downloads: DownloadItem[]) => void;
+
+interface PendingRequest {
+  resolve: (response: OffscreenResponse<keyof OffscreenRequests>) => void;
+  reject: (error: Error) => void;
+}
 
 class AudioService {
   private listeners: Set<AudioStateListener> = new Set();
+  private downloadsListeners: Set<DownloadsListener> = new Set();
   private currentState: AudioState = {
     isPlaying: false,
     currentTime: 0,
     duration: 0,
     volume: 1.0,
     isMuted: false,
+    playbackRate: 1,
+    queueIndex: -1,
+    queueLength: 0,
+    currentItem: null,
+    loop: null,
+    sleepTimer: null,
+    station: null,
+    isReconnecting: false,
+    tafsirInterleave: null,
   };
-  private messageListenerInitialized = false;
+  private port: chrome.runtime.Port | null = null;
+  private connecting: Promise<chrome.runtime.Port> | null = null;
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private nextRequestId = 1;
 
   constructor() {
     // Don't initialize Chrome APIs in constructor - do it lazily when needed
   }
 
-  private initializeMessageListener() {
-    if (this.messageListenerInitialized) {
-      return;
+  // Get a connected port to the offscreen document, opening one if needed
+  private connect(): Promise<chrome.runtime.Port> {
+    if (this.port) {
+      return Promise.resolve(this.port);
     }
+    if (!this.connecting) {
+      this.connecting = this.openPort().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
 
-    // Listen for state updates from offscreen document
-    // Check if chrome.runtime is available (may not be during build or in some contexts)
-    if (typeof chrome !== 'undefined' && chrome?.runtime?.onMessage) {
-      try {
-        chrome.runtime.onMessage.addListener((message) => {
-          if (message.type === 'AUDIO_STATE_UPDATE' && message.state) {
-            this.currentState = message.state;
-            this.notifyListeners();
-          }
+  // Open a port and wait for the offscreen document to answer the handshake
+  private async openPort(): Promise<chrome.runtime.Port> {
+    if (typeof chrome === 'undefined' || !chrome?.runtime?.connect) {
+      throw new Error('Chrome runtime API is not available');
+    }
+
+    await this.ensureOffscreenDocument();
+
+    return new Promise((resolve, reject) => {
+      const port = chrome.runtime.connect({ name: AUDIO_PORT_NAME });
+
+      const handleHandshake = (message: PortServerMessage) => {
+        if (message.kind !== 'welcome') {
+          return;
+        }
+        port.onMessage.removeListener(handleHandshake);
+        port.onDisconnect.removeListener(handleHandshakeDisconnect);
+        console.log('[AudioService] Connected to offscreen document');
+        this.attachPort(port);
+        this.currentState = message.state;
+        this.notifyListeners();
+        resolve(port);
+      };
+
+      const handleHandshakeDisconnect = () => {
+        port.onMessage.removeListener(handleHandshake);
+        reject(new Error(chrome.runtime.lastError?.message || 'Offscreen document refused connection'));
+      };
+
+      port.onMessage.addListener(handleHandshake);
+      port.onDisconnect.addListener(handleHandshakeDisconnect);
+      const hello: PortClientMessage = { kind: 'hello' };
+      port.postMessage(hello);
+    });
+  }
+
+  // Route responses and events from a connected port
+  private attachPort(port: chrome.runtime.Port) {
+    this.port = port;
+
+    port.onMessage.addListener((message: PortServerMessage) => {
+      if (message.kind === 'response') {
+        const pending = this.pendingRequests.get(message.id);
+        if (pending) {
+          this.pendingRequests.delete(message.id);
+          pending.resolve(message.response);
+        }
+      } else if (message.kind === 'event') {
+        this.handleEvent(message.event);
+      }
+    });
+
+    port.onDisconnect.addListener(() => {
+      console.warn('[AudioService] Disconnected from offscreen document');
+      this.port = null;
+
+      const error = new Error('Offscreen document disconnected');
+      this.pendingRequests.forEach((pending) => pending.reject(error));
+      this.pendingRequests.clear();
+
+      // Reconnect right away if a view is still listening for state or downloads
+      if (this.listeners.size > 0 || this.downloadsListeners.size > 0) {
+        this.connect().catch((reconnectError) => {
+          console.error('[AudioService] Failed to reconnect:', reconnectError);
         });
-        this.messageListenerInitialized = true;
-      } catch (error) {
-        console.error('Failed to initialize message listener:', error);
       }
+    });
+  }
+
+  private handleEvent(event: OffscreenEvent) {
+    if (event.type === 'AUDIO_STATE_UPDATE') {
+      this.currentState = event.state;
+      this.notifyListeners();
+    } else if (event.type === 'DOWNLOADS_UPDATE') {
+      this.downloadsListeners.forEach((listener) => {
+        try {
+          listener(event.downloads);
+        } catch (error) {
+          console.error('Error in downloads listener:', error);
+        }
+      });
     }
   }
 
@@ -58,161 +241,44 @@ class AudioService {
     });
   }
 
-  // Send message to offscreen document (messages broadcast to all listeners)
-  private async sendMessageToOffscreen(message: any): Promise<any> {
-    // Initialize message listener on first use
-    this.initializeMessageListener();
-
-    if (typeof chrome === 'undefined' || !chrome?.runtime?.sendMessage) {
-      return Promise.reject(new Error('Chrome runtime API is not available'));
-    }
-
-    // Ensure offscreen document exists before sending messages
-    await this.ensureOffscreenDocument();
+  // Send a request to the offscreen document over the port
+  private async sendMessageToOffscreen<K extends keyof OffscreenRequests>(
+    message: OffscreenRequest<K>
+  ): Promise<OffscreenResponse<K>> {
+    const port = await this.connect();
 
     console.log('[AudioService] Sending message:', message.type, message);
 
     return new Promise((resolve, reject) => {
-      // Set a timeout for the message
-      const timeout = setTimeout(() => {
-        console.error('[AudioService] Message timeout for:', message.type);
-        reject(new Error('Message timeout: No response received'));
-      }, 5000);
-
-      // Messages sent via chrome.runtime.sendMessage are received by all listeners
-      // including the offscreen document
-      chrome.runtime.sendMessage(message, (response) => {
-        clearTimeout(timeout);
-        const error = chrome.runtime.lastError;
-        
-        console.log('[AudioService] Message response:', message.type, { response, error: error?.message });
-        
-        if (error) {
-          // If the port closed or there's an error, try to create offscreen and retry
-          const errorMsg = error.message || 'Unknown error';
-          console.warn('[AudioService] Message error:', message.type, errorMsg);
-          if (message.type !== 'CREATE_OFFSCREEN' && !errorMsg.includes('Could not establish connection')) {
-            this.ensureOffscreenDocument().then(() => {
-              // Wait a bit for offscreen to be ready
-              setTimeout(() => {
-                chrome.runtime.sendMessage(message, (retryResponse) => {
-                  const retryError = chrome.runtime.lastError;
-                  if (retryError) {
-                    reject(new Error(retryError.message || 'Retry failed'));
-                  } else if (retryResponse === undefined) {
-                    // No response but no error - might be a one-way message
-                    resolve({ success: true });
-                  } else {
-                    resolve(retryResponse);
-                  }
-                });
-              }, 200);
-            }).catch((err) => {
-              reject(new Error(err instanceof Error ? err.message : errorMsg));
-            });
-          } else {
-            reject(new Error(errorMsg));
-          }
-        } else if (response === undefined) {
-          // No response but no error - might be a one-way message
-          resolve({ success: true });
-        } else {
-          resolve(response);
-        }
+      const id = this.nextRequestId++;
+      this.pendingRequests.set(id, {
+        resolve: (response) => resolve(response as OffscreenResponse<K>),
+        reject,
       });
+      const request: PortClientMessage = { kind: 'request', id, request: message as OffscreenRequest };
+      port.postMessage(request);
     });
   }
 
-  // Ensure offscreen document is created and ready
+  // Ensure offscreen document is created (the background script owns creation)
   async ensureOffscreenDocument(): Promise<void> {
     if (typeof chrome === 'undefined' || !chrome.offscreen || !chrome.runtime) {
       throw new Error('Chrome APIs are not available');
     }
 
-    try {
-      // The background script creates it automatically, but we can check
-      let hasDocument = await chrome.offscreen.hasDocument();
-      console.log('[AudioService] Offscreen document exists:', hasDocument);
-      if (!hasDocument) {
-        console.log('[AudioService] Creating offscreen document...');
-        // Trigger background script to create it
-        await new Promise<void>((resolve, reject) => {
-          let resolved = false;
-          const safeResolve = () => {
-            if (!resolved) {
-              resolved = true;
-              resolve();
-            }
-          };
-          const safeReject = (err: Error) => {
-            if (!resolved) {
-              resolved = true;
-              reject(err);
-            }
-          };
-          
-          chrome.runtime.sendMessage({ type: 'CREATE_OFFSCREEN' }, () => {
-            const error = chrome.runtime.lastError;
-            if (error) {
-              const errorMsg = error.message || 'Unknown error';
-              if (!errorMsg.includes('message port closed')) {
-                safeReject(new Error(errorMsg));
-              } else {
-                // Port closed is okay, wait for document creation
-                setTimeout(() => safeResolve(), 300);
-              }
-            } else {
-              // Wait a bit for the document to be created
-              setTimeout(() => safeResolve(), 300);
-            }
-          });
-          
-          // Fallback: If no response after 500ms, assume it's being created
-          setTimeout(() => safeResolve(), 500);
-        });
-        
-        // Verify it exists now
-        hasDocument = await chrome.offscreen.hasDocument();
-      }
+    if (await chrome.offscreen.hasDocument()) {
+      return;
+    }
 
-      // Ping the offscreen document to ensure it's ready (but don't fail if it doesn't respond)
-      if (hasDocument) {
-        try {
-          await new Promise<void>((resolve) => {
-            const timeout = setTimeout(() => {
-              // Timeout - assume it's still loading
-              resolve();
-            }, 1000);
-
-            chrome.runtime.sendMessage({ type: 'PING' }, (response) => {
-              clearTimeout(timeout);
-              const error = chrome.runtime.lastError;
-              if (!error && response && response.ready) {
-                // Got a successful ping response
-                resolve();
-              } else {
-                // No response or error - wait a bit then proceed
-                setTimeout(() => resolve(), 200);
-              }
-            });
-          });
-        } catch (error) {
-          // If ping fails, just wait a bit and proceed anyway
-          console.warn('Offscreen ping failed, proceeding anyway:', error);
-          await new Promise(resolve => setTimeout(resolve, 300));
-        }
-      }
-    } catch (error) {
-      console.error('Error ensuring offscreen document:', error);
-      // Wait a bit and hope it's created by background script
-      await new Promise(resolve => setTimeout(resolve, 300));
+    console.log('[AudioService] Creating offscreen document...');
+    const response = await send({ type: 'CREATE_OFFSCREEN' });
+    if (!response.success) {
+      throw new Error(response.error);
     }
   }
 
   // Load audio URL
   async loadAudio(url: string): Promise<void> {
-    await this.ensureOffscreenDocument();
-    
     try {
       const response = await this.sendMessageToOffscreen({
         type: 'LOAD_AUDIO',
@@ -230,8 +296,6 @@ class AudioService {
 
   // Play audio
   async play(): Promise<void> {
-    await this.ensureOffscreenDocument();
-    
     try {
       const response = await this.sendMessageToOffscreen({
         type: 'PLAY',
@@ -262,6 +326,39 @@ class AudioService {
     }
   }
 
+  // Pause when playing, otherwise play
+  async togglePlayback(): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'TOGGLE_PLAYBACK',
+      });
+      
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to toggle playback');
+      }
+    } catch (error) {
+      console.error('Error toggling playback:', error);
+      throw error;
+    }
+  }
+
+  // Move the current time by a number of seconds (negative to go back)
+  async seekBy(seconds: number): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'SEEK_BY',
+        seconds,
+      });
+      
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to seek');
+      }
+    } catch (error) {
+      console.error('Error seeking:', error);
+      throw error;
+    }
+  }
+
   // Set current time
   async setTime(time: number): Promise<void> {
     try {
@@ -320,6 +417,289 @@ class AudioService {
     }
   }
 
+  // Replace the playback queue and load the item at startIndex
+  async setQueue(items: QueueItem[], startIndex: number = 0): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'SET_QUEUE',
+        items,
+        index: startIndex,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to set queue');
+      }
+    } catch (error) {
+      console.error('Error setting queue:', error);
+      throw error;
+    }
+  }
+
+  // Replace whatever is loaded with a live radio stream and start playing it
+  async playStation(station: RadioStation): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'PLAY_STATION',
+        station,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to play station');
+      }
+    } catch (error) {
+      console.error('Error playing station:', error);
+      throw error;
+    }
+  }
+
+  // Turn tafsir after each recitation on (with the given tafsir) or off
+  async setTafsirInterleave(settings: TafsirInterleaveSettings | null): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'SET_TAFSIR_INTERLEAVE',
+        settings,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to update tafsir setting');
+      }
+    } catch (error) {
+      console.error('Error updating tafsir setting:', error);
+      throw error;
+    }
+  }
+
+  // Skip to the next item in the queue
+  async next(): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'NEXT',
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to skip to next');
+      }
+    } catch (error) {
+      console.error('Error skipping to next:', error);
+      throw error;
+    }
+  }
+
+  // Go back to the previous item in the queue
+  async previous(): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'PREVIOUS',
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to skip to previous');
+      }
+    } catch (error) {
+      console.error('Error skipping to previous:', error);
+      throw error;
+    }
+  }
+
+  // Get the current playback queue
+  async getQueue(): Promise<AudioQueue> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'GET_QUEUE',
+      });
+
+      if (response && response.success && response.queue) {
+        return response.queue;
+      }
+
+      return { items: [], index: -1 };
+    } catch (error) {
+      console.error('Error getting queue:', error);
+      return { items: [], index: -1 };
+    }
+  }
+
+  // Set playback speed (0.5-2), keeping the reciter's pitch
+  async setPlaybackRate(playbackRate: number): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'SET_PLAYBACK_RATE',
+        playbackRate,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to set playback rate');
+      }
+
+      this.currentState.playbackRate = playbackRate;
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error setting playback rate:', error);
+      throw error;
+    }
+  }
+
+  // Repeat the range between start and end (seconds) of the current surah
+  async setLoop(loop: LoopSettings): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'SET_LOOP',
+        loop,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to set loop');
+      }
+    } catch (error) {
+      console.error('Error setting loop:', error);
+      throw error;
+    }
+  }
+
+  // Stop repeating and continue playing normally
+  async clearLoop(): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'CLEAR_LOOP',
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to clear loop');
+      }
+    } catch (error) {
+      console.error('Error clearing loop:', error);
+      throw error;
+    }
+  }
+
+  // Pause playback later, fading out over the final seconds
+  async setSleepTimer(timer: SleepTimerSettings): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'SET_SLEEP_TIMER',
+        timer,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to set sleep timer');
+      }
+    } catch (error) {
+      console.error('Error setting sleep timer:', error);
+      throw error;
+    }
+  }
+
+  // Cancel the sleep timer and restore full volume
+  async cancelSleepTimer(): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'CANCEL_SLEEP_TIMER',
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to cancel sleep timer');
+      }
+    } catch (error) {
+      console.error('Error cancelling sleep timer:', error);
+      throw error;
+    }
+  }
+
+  // Download recitations for offline playback
+  async startDownloads(items: QueueItem[]): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'START_DOWNLOADS',
+        items,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to start downloads');
+      }
+    } catch (error) {
+      console.error('Error starting downloads:', error);
+      throw error;
+    }
+  }
+
+  async pauseDownload(url: string): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'PAUSE_DOWNLOAD',
+        url,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to pause download');
+      }
+    } catch (error) {
+      console.error('Error pausing download:', error);
+      throw error;
+    }
+  }
+
+  async resumeDownload(url: string): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'RESUME_DOWNLOAD',
+        url,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to resume download');
+      }
+    } catch (error) {
+      console.error('Error resuming download:', error);
+      throw error;
+    }
+  }
+
+  // Cancel downloads in progress and delete downloaded copies
+  async removeDownloads(urls: string[]): Promise<void> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'REMOVE_DOWNLOADS',
+        urls,
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to remove downloads');
+      }
+    } catch (error) {
+      console.error('Error removing downloads:', error);
+      throw error;
+    }
+  }
+
+  async getDownloads(): Promise<DownloadItem[]> {
+    try {
+      const response = await this.sendMessageToOffscreen({
+        type: 'GET_DOWNLOADS',
+      });
+
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to get downloads');
+      }
+      return response.downloads;
+    } catch (error) {
+      console.error('Error getting downloads:', error);
+      throw error;
+    }
+  }
+
+  // Subscribe to download progress
+  onDownloadsUpdate(listener: DownloadsListener): () => void {
+    this.downloadsListeners.add(listener);
+
+    this.connect().catch((error) => {
+      console.error('[AudioService] Failed to connect:', error);
+    });
+
+    return () => {
+      this.downloadsListeners.delete(listener);
+    };
+  }
+
   // Get current state
   async getState(): Promise<AudioState> {
     try {
@@ -342,6 +722,11 @@ class AudioService {
   // Subscribe to state updates
   onStateUpdate(listener: AudioStateListener): () => void {
     this.listeners.add(listener);
+
+    // Connect so the offscreen document starts pushing state to this view
+    this.connect().catch((error) => {
+      console.error('[AudioService] Failed to connect:', error);
+    });
     
     // Return unsubscribe function
     return () => {
@@ -0,0 +1,121 @@
+/**
+ * Per-ayah timing for recitations
+ * The source is pluggable: the mp3quran timing API by default, or a local fixture
+ */
+
+import { AyahTimingEntry, Mp3QuranClient, mp3quranApi } from './mp3quranApi';
+
+export interface AyahTiming {
+  ayah: number;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// The parts of a moshaf needed to look up its timing data
+export interface TimingTarget {
+  moshafId: number;
+  server: string;
+}
+
+export interface TimingSource {
+  // Resolves with null when the recitation has no timing data
+  getTimings(target: TimingTarget, surahId: number): Promise<AyahTiming[] | null>;
+}
+
+// Compare server URLs regardless of protocol, "www." and trailing slash
+const normalizeServer = (url: string) =>
+  url.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+
+// Timing reads from the mp3quran API, matched to a moshaf by its server folder
+export class Mp3QuranTimingSource implements TimingSource {
+  private readsPromise: Promise<Map<string, number>> | null = null;
+  private cache: Map<string, Promise<AyahTiming[] | null>> = new Map();
+
+  constructor(private api: Mp3QuranClient = mp3quranApi) {}
+
+  private loadReads(): Promise<Map<string, number>> {
+    if (!this.readsPromise) {
+      this.readsPromise = this.api
+        .getAyahTimingReads()
+        .then((reads) => {
+          const byServer = new Map<string, number>();
+          reads.forEach((read) => byServer.set(normalizeServer(read.folder_url), read.id));
+          return byServer;
+        })
+        .catch((error) => {
+          // Allow a later retry instead of caching the failure
+          this.readsPromise = null;
+          throw error;
+        });
+    }
+    return this.readsPromise;
+  }
+
+  async getTimings(target: TimingTarget, surahId: number): Promise<AyahTiming[] | null> {
+    const reads = await this.loadReads();
+    const readId = reads.get(normalizeServer(target.server));
+    if (readId === undefined) {
+      return null;
+    }
+
+    const key = `${readId}:${surahId}`;
+    let timings = this.cache.get(key);
+    if (!timings) {
+      timings = this.api
+        .getAyahTimings(surahId, readId)
+        .then(toAyahTimings)
+        .catch((error) => {
+          this.cache.delete(key);
+          throw error;
+        });
+      this.cache.set(key, timings);
+    }
+    return timings;
+  }
+}
+
+// Timings from an in-memory fixture keyed by "moshafId:surahId"
+export class FixtureTimingSource implements TimingSource {
+  constructor(private fixtures: Record<string, AyahTiming[]>) {}
+
+  async getTimings(target: TimingTarget, surahId: number): Promise<AyahTiming[] | null> {
+    return this.fixtures[`${target.moshafId}:${surahId}`] ?? null;
+  }
+}
+
+// Drop the opening entry (isti'adha/basmala is reported as ayah 0) and convert to seconds
+function toAyahTimings(entries: AyahTimingEntry[]): AyahTiming[] | null {
+  const timings = entries
+    .filter((entry) => entry.ayah > 0 && entry.end_time > entry.start_time)
+    .map((entry) => ({ ayah: entry.ayah, start: entry.start_time / 1000, end: entry.end_time / 1000 }))
+    .sort((a, b) => a.start - b.start);
+  return timings.length > 0 ? timings : null;
+}
+
+let timingSource: TimingSource = new Mp3QuranTimingSource();
+
+export function getTimingSource(): TimingSource {
+  return timingSource;
+}
+
+// Swap the timing source (e.g. a FixtureTimingSource in tests)
+export function setTimingSource(source: TimingSource) {
+  timingSource = source;
+}
+
+// Index of the ayah being recited at time, or -1 before the first ayah
+export function findAyahIndex(timings: AyahTiming[], time: number): number {
+  let low = 0;
+  let high = timings.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timings[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
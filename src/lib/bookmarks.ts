@@ -0,0 +1,103 @@
+/**
+ * Bookmarks for moments in a recitation, with optional notes
+ * Stored through the storage wrapper and exportable/importable as JSON
+ */
+
+import { storage } from './storage';
+
+export interface Bookmark {
+  id: string;
+  reciterId: number;
+  moshafId: number;
+  surahId: number;
+  time: number;
+  note: string;
+  createdAt: number;
+}
+
+export type NewBookmark = Omit<Bookmark, 'id' | 'createdAt'>;
+
+const STORAGE_KEY = 'bookmarks';
+const EXPORT_VERSION = 1;
+
+function isBookmark(value: unknown): value is Bookmark {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    Number.isInteger(candidate.reciterId) &&
+    Number.isInteger(candidate.moshafId) &&
+    Number.isInteger(candidate.surahId) &&
+    typeof candidate.time === 'number' &&
+    isFinite(candidate.time) &&
+    candidate.time >= 0 &&
+    typeof candidate.note === 'string' &&
+    typeof candidate.createdAt === 'number'
+  );
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Bookmarks, newest first
+export async function getBookmarks(): Promise<Bookmark[]> {
+  const result = await storage.get([STORAGE_KEY]);
+  const bookmarks = result[STORAGE_KEY];
+  return Array.isArray(bookmarks) ? bookmarks.filter(isBookmark) : [];
+}
+
+async function saveBookmarks(bookmarks: Bookmark[]): Promise<void> {
+  const sorted = [...bookmarks].sort((a, b) => b.createdAt - a.createdAt);
+  await storage.set({ [STORAGE_KEY]: sorted });
+}
+
+export async function addBookmark(bookmark: NewBookmark): Promise<Bookmark> {
+  const created: Bookmark = {
+    ...bookmark,
+    note: bookmark.note.trim(),
+    id: createId(),
+    createdAt: Date.now(),
+  };
+  const bookmarks = await getBookmarks();
+  await saveBookmarks([created, ...bookmarks]);
+  return created;
+}
+
+export async function removeBookmark(id: string): Promise<void> {
+  const bookmarks = await getBookmarks();
+  await saveBookmarks(bookmarks.filter((b) => b.id !== id));
+}
+
+// Serialize all bookmarks to a JSON document
+export async function exportBookmarks(): Promise<string> {
+  const bookmarks = await getBookmarks();
+  return JSON.stringify({ version: EXPORT_VERSION, bookmarks }, null, 2);
+}
+
+// Merge bookmarks from an exported JSON document, returning how many were added
+// Accepts either the export format or a bare array; invalid entries are skipped
+export async function importBookmarks(json: string): Promise<number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid bookmarks file');
+  }
+
+  const incoming: unknown = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' ? (parsed as { bookmarks?: unknown }).bookmarks : undefined;
+  if (!Array.isArray(incoming)) {
+    throw new Error('Invalid bookmarks file');
+  }
+
+  const bookmarks = await getBookmarks();
+  const existingIds = new Set(bookmarks.map((b) => b.id));
+  const added = incoming.filter((b: unknown): b is Bookmark => isBookmark(b) && !existingIds.has(b.id));
+
+  await saveBookmarks([...bookmarks, ...added]);
+  return added.length;
+}
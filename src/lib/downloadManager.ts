@@ -0,0 +1,192 @@
+/**
+ * Download queue run by the offscreen document, so downloads keep going with the side panel closed
+ * Paused downloads keep the bytes received so far and resume with a Range request
+ */
+
+import type { QueueItem } from './audioService';
+import { DOWNLOAD_CACHE_NAME, DownloadItem } from './downloads';
+import { storage } from './storage';
+
+// Completed downloads, restored when the offscreen document starts
+// (kept in the background worker's storage, as the offscreen document has no chrome.storage)
+const RECORDS_KEY = 'downloads';
+const MAX_CONCURRENT_DOWNLOADS = 2;
+// Progress updates are throttled to one per interval across all downloads
+const PROGRESS_INTERVAL_MS = 500;
+
+export class DownloadManager {
+  private items: Map<string, DownloadItem> = new Map();
+  // Bytes received so far for downloads that haven't completed
+  private partials: Map<string, Uint8Array[]> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private lastProgressNotify = 0;
+
+  constructor(private onChange: (downloads: DownloadItem[]) => void) {}
+
+  async init(): Promise<void> {
+    const result = await storage.get([RECORDS_KEY]);
+    const records: DownloadItem[] = Array.isArray(result[RECORDS_KEY]) ? result[RECORDS_KEY] : [];
+    records.forEach((record) => this.items.set(record.url, record));
+    this.notify();
+  }
+
+  list(): DownloadItem[] {
+    return Array.from(this.items.values());
+  }
+
+  // Queue items for download; ones already downloaded or in progress are left alone
+  start(items: QueueItem[]) {
+    items.forEach((item) => {
+      const existing = this.items.get(item.url);
+      if (existing && existing.status !== 'paused' && existing.status !== 'error') {
+        return;
+      }
+      this.items.set(item.url, {
+        reciterId: item.reciterId,
+        moshafId: item.moshafId,
+        surahId: item.surahId,
+        url: item.url,
+        status: 'queued',
+        receivedBytes: existing?.receivedBytes ?? 0,
+        totalBytes: existing?.totalBytes ?? null,
+        error: null,
+      });
+    });
+    this.notify();
+    this.pump();
+  }
+
+  pause(url: string): boolean {
+    const item = this.items.get(url);
+    if (!item || (item.status !== 'queued' && item.status !== 'downloading')) {
+      return false;
+    }
+    this.update(url, { status: 'paused' });
+    this.controllers.get(url)?.abort();
+    this.notify();
+    return true;
+  }
+
+  resume(url: string): boolean {
+    const item = this.items.get(url);
+    if (!item || (item.status !== 'paused' && item.status !== 'error')) {
+      return false;
+    }
+    this.update(url, { status: 'queued', error: null });
+    this.notify();
+    this.pump();
+    return true;
+  }
+
+  // Stop downloads and remove any stored copies
+  async remove(urls: string[]): Promise<void> {
+    urls.forEach((url) => {
+      this.items.delete(url);
+      this.partials.delete(url);
+      this.controllers.get(url)?.abort();
+    });
+    const cache = await caches.open(DOWNLOAD_CACHE_NAME);
+    await Promise.all(urls.map((url) => cache.delete(url)));
+    await this.persist();
+    this.notify();
+    this.pump();
+  }
+
+  private update(url: string, changes: Partial<DownloadItem>) {
+    const item = this.items.get(url);
+    if (item) {
+      this.items.set(url, { ...item, ...changes });
+    }
+  }
+
+  private notify() {
+    this.lastProgressNotify = Date.now();
+    this.onChange(this.list());
+  }
+
+  private persist(): Promise<void> {
+    const completed = this.list().filter((item) => item.status === 'completed');
+    return storage.set({ [RECORDS_KEY]: completed });
+  }
+
+  // Start queued downloads while there is room
+  private pump() {
+    for (const item of this.items.values()) {
+      if (this.controllers.size >= MAX_CONCURRENT_DOWNLOADS) {
+        return;
+      }
+      if (item.status === 'queued') {
+        this.download(item.url);
+      }
+    }
+  }
+
+  private async download(url: string) {
+    const controller = new AbortController();
+    this.controllers.set(url, controller);
+    const chunks = this.partials.get(url) ?? [];
+    this.partials.set(url, chunks);
+    let receivedBytes = chunks.reduce((total, chunk) => total + chunk.byteLength, 0);
+    this.update(url, { status: 'downloading', receivedBytes });
+    this.notify();
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        headers: receivedBytes > 0 ? { Range: `bytes=${receivedBytes}-` } : undefined,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Download failed (HTTP ${response.status})`);
+      }
+
+      // The server ignored the range, so start over
+      if (receivedBytes > 0 && response.status !== 206) {
+        chunks.length = 0;
+        receivedBytes = 0;
+      }
+      const contentLength = parseInt(response.headers.get('Content-Length') ?? '');
+      const totalBytes = isNaN(contentLength) ? null : receivedBytes + contentLength;
+      this.update(url, { receivedBytes, totalBytes });
+
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        receivedBytes += value.byteLength;
+        this.update(url, { receivedBytes });
+        if (Date.now() - this.lastProgressNotify >= PROGRESS_INTERVAL_MS) {
+          this.notify();
+        }
+      }
+
+      const blob = new Blob(chunks as BlobPart[], { type: 'audio/mpeg' });
+      const cache = await caches.open(DOWNLOAD_CACHE_NAME);
+      await cache.put(url, new Response(blob, {
+        headers: { 'Content-Type': 'audio/mpeg', 'Content-Length': blob.size.toString() },
+      }));
+
+      // Removed while the copy was being stored
+      if (!this.items.has(url)) {
+        await cache.delete(url);
+        return;
+      }
+      this.partials.delete(url);
+      this.update(url, { status: 'completed', receivedBytes: blob.size, totalBytes: blob.size });
+      await this.persist();
+    } catch (error) {
+      // Paused or removed: the status was already updated by whoever aborted
+      if (!controller.signal.aborted) {
+        console.error('[Downloads] Failed to download:', url, error);
+        this.update(url, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      // A quick pause/resume may already have started a new attempt
+      if (this.controllers.get(url) === controller) {
+        this.controllers.delete(url);
+      }
+      this.notify();
+      this.pump();
+    }
+  }
+}
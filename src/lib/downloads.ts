@@ -0,0 +1,54 @@
+/**
+ * Offline copies of recitations
+ * MP3s are stored in Cache Storage under the same URL buildSurahUrl produces, so the
+ * offscreen player can swap in the local copy without knowing where it came from
+ */
+
+import type { QueueItem } from './audioService';
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'error';
+
+export interface DownloadItem extends QueueItem {
+  status: DownloadStatus;
+  receivedBytes: number;
+  totalBytes: number | null; // null until the server reports a size
+  error: string | null;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const DOWNLOAD_CACHE_NAME = 'recitations-v1';
+
+// The downloaded MP3 for a URL, or null when it only exists online
+export async function getDownloadedAudio(url: string): Promise<Blob | null> {
+  if (typeof caches === 'undefined') {
+    return null;
+  }
+  const cache = await caches.open(DOWNLOAD_CACHE_NAME);
+  const response = await cache.match(url);
+  return response ? response.blob() : null;
+}
+
+// Space used by this extension's origin and how much the browser allows it
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+// Human-readable size, e.g. "12.4 MB"
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 || value >= 100 ? 0 : 1)} ${units[unit]}`;
+}
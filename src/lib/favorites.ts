@@ -0,0 +1,33 @@
+/**
+ * Favourite (starred) reciters and radio stations, pinned to the top of their lists
+ */
+
+import { storage } from './storage';
+
+const RECITERS_KEY = 'favoriteReciters';
+const STATIONS_KEY = 'favoriteStations';
+
+// Ids in the order they were starred
+async function getFavorites(key: string): Promise<number[]> {
+  const result = await storage.get([key]);
+  const favorites = result[key];
+  return Array.isArray(favorites) ? favorites.filter((id) => Number.isInteger(id)) : [];
+}
+
+// Star or unstar an id, returning the updated list
+async function toggleFavorite(key: string, id: number): Promise<number[]> {
+  const favorites = await getFavorites(key);
+  const updated = favorites.includes(id)
+    ? favorites.filter((favorite) => favorite !== id)
+    : [...favorites, id];
+  await storage.set({ [key]: updated });
+  return updated;
+}
+
+export const getFavoriteReciters = () => getFavorites(RECITERS_KEY);
+
+export const toggleFavoriteReciter = (reciterId: number) => toggleFavorite(RECITERS_KEY, reciterId);
+
+export const getFavoriteStations = () => getFavorites(STATIONS_KEY);
+
+export const toggleFavoriteStation = (stationId: number) => toggleFavorite(STATIONS_KEY, stationId);
@@ -1,3 +1,5 @@
+import { storage } from './storage';
+
 export type Language = 'ar' | 'en';
 
 export interface Translations {
@@ -11,6 +13,134 @@ export interface Translations {
   selectSurah: string;
   loading: string;
   language: string;
+  resumeFrom: string;
+  startOver: string;
+  bookmarks: string;
+  addBookmark: string;
+  bookmarkNotePlaceholder: string;
+  save: string;
+  cancel: string;
+  noBookmarks: string;
+  playBookmark: string;
+  deleteBookmark: string;
+  exportBookmarks: string;
+  importBookmarks: string;
+  importFailed: string;
+  abRepeat: string;
+  setPointA: string;
+  setPointB: string;
+  repeatCount: string;
+  repeatForever: string;
+  pauseBetween: string;
+  startLoop: string;
+  clearLoop: string;
+  repeatsLeft: string;
+  ayah: string;
+  previousAyah: string;
+  nextAyah: string;
+  repeatAyahs: string;
+  fromAyah: string;
+  toAyah: string;
+  noAyahTiming: string;
+  sleepTimer: string;
+  sleepTimerOff: string;
+  minutes: string;
+  endOfSurah: string;
+  afterSurahs: string;
+  surahsLeft: string;
+  playbackSpeed: string;
+  timeRemaining: string;
+  playlists: string;
+  newPlaylist: string;
+  playlistNamePlaceholder: string;
+  create: string;
+  noPlaylists: string;
+  emptyPlaylist: string;
+  playPlaylist: string;
+  addToPlaylist: string;
+  renamePlaylist: string;
+  deletePlaylist: string;
+  confirmDeletePlaylist: string;
+  moveUp: string;
+  moveDown: string;
+  removeFromPlaylist: string;
+  notInMoshaf: string;
+  surahsAvailable: string;
+  surahNotInMoshaf: string;
+  downloads: string;
+  downloadSurah: string;
+  downloadMoshaf: string;
+  noDownloads: string;
+  downloadQueued: string;
+  downloadPaused: string;
+  downloadFailed: string;
+  pauseDownload: string;
+  resumeDownload: string;
+  cancelDownload: string;
+  deleteDownload: string;
+  deleteReciterDownloads: string;
+  confirmDeleteReciterDownloads: string;
+  availableOffline: string;
+  storageUsed: string;
+  loadFailed: string;
+  retry: string;
+  searchReciters: string;
+  searchSurahs: string;
+  noMatches: string;
+  addFavoriteReciter: string;
+  removeFavoriteReciter: string;
+  recentlyPlayed: string;
+  noRecentlyPlayed: string;
+  playRecent: string;
+  removeRecent: string;
+  clearRecentlyPlayed: string;
+  favoriteReciters: string;
+  riwaya: string;
+  allRiwayat: string;
+  recitationType: string;
+  allRecitationTypes: string;
+  recitersFound: string;
+  recitationsTab: string;
+  radioTab: string;
+  radioStations: string;
+  searchStations: string;
+  live: string;
+  reconnecting: string;
+  paused: string;
+  play: string;
+  pause: string;
+  stationFailed: string;
+  addFavoriteStation: string;
+  removeFavoriteStation: string;
+  tafsir: string;
+  tafsirRecording: string;
+  noTafsir: string;
+  playTafsir: string;
+  tafsirAfterEachSurah: string;
+  playingTafsir: string;
+  quranText: string;
+  quranTextUnavailable: string;
+  mushafPage: string;
+  seekBar: string;
+  timeOfDuration: string;
+  volume: string;
+  mute: string;
+  unmute: string;
+  previousSurah: string;
+  nextSurah: string;
+  playPause: string;
+  continueLastRecitation: string;
+  liveBadge: string;
+  actionPlaying: string;
+  actionPaused: string;
+  notifications: string;
+  notifyNowPlaying: string;
+  notifyErrors: string;
+  nowPlayingNotification: string;
+  playbackFailed: string;
+  playbackFailedMessage: string;
+  audioUnsupported: string;
+  skip: string;
 }
 
 export const translations: Record<Language, Translations> = {
@@ -25,6 +155,134 @@ export const translations: Record<Language, Translations> = {
     selectSurah: 'Select a surah',
     loading: 'Loading...',
     language: 'Language',
+    resumeFrom: 'Resume from',
+    startOver: 'Start over',
+    bookmarks: 'Bookmarks',
+    addBookmark: 'Bookmark this moment',
+    bookmarkNotePlaceholder: 'Add a note (optional)',
+    save: 'Save',
+    cancel: 'Cancel',
+    noBookmarks: 'No bookmarks yet',
+    playBookmark: 'Play from bookmark',
+    deleteBookmark: 'Delete bookmark',
+    exportBookmarks: 'Export',
+    importBookmarks: 'Import',
+    importFailed: 'Could not import bookmarks. Please check the file.',
+    abRepeat: 'A–B Repeat',
+    setPointA: 'Set A',
+    setPointB: 'Set B',
+    repeatCount: 'Repeat',
+    repeatForever: 'Forever',
+    pauseBetween: 'Pause',
+    startLoop: 'Start',
+    clearLoop: 'Clear',
+    repeatsLeft: 'Repeats left',
+    ayah: 'Ayah',
+    previousAyah: 'Previous ayah',
+    nextAyah: 'Next ayah',
+    repeatAyahs: 'Repeat ayahs',
+    fromAyah: 'From',
+    toAyah: 'To',
+    noAyahTiming: 'Ayah timing is not available for this recitation',
+    sleepTimer: 'Sleep timer',
+    sleepTimerOff: 'Off',
+    minutes: 'min',
+    endOfSurah: 'End of surah',
+    afterSurahs: 'After {count} surahs',
+    surahsLeft: 'Surahs left',
+    playbackSpeed: 'Playback speed',
+    timeRemaining: 'Time remaining at current speed',
+    playlists: 'Playlists',
+    newPlaylist: 'New playlist',
+    playlistNamePlaceholder: 'Playlist name',
+    create: 'Create',
+    noPlaylists: 'No playlists yet',
+    emptyPlaylist: 'Add the current surah to start this playlist',
+    playPlaylist: 'Play playlist',
+    addToPlaylist: 'Add current surah',
+    renamePlaylist: 'Rename',
+    deletePlaylist: 'Delete playlist',
+    confirmDeletePlaylist: 'Delete this playlist?',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    removeFromPlaylist: 'Remove from playlist',
+    notInMoshaf: 'not recorded',
+    surahsAvailable: '{count} of {total} surahs recorded in this moshaf',
+    surahNotInMoshaf: '{surah} is not included in {moshaf}. Choose another surah or moshaf.',
+    downloads: 'Downloads',
+    downloadSurah: 'Download surah',
+    downloadMoshaf: 'Download moshaf',
+    noDownloads: 'Nothing downloaded for offline listening yet',
+    downloadQueued: 'Waiting',
+    downloadPaused: 'Paused',
+    downloadFailed: 'Failed',
+    pauseDownload: 'Pause download',
+    resumeDownload: 'Resume download',
+    cancelDownload: 'Cancel download',
+    deleteDownload: 'Delete download',
+    deleteReciterDownloads: 'Delete all',
+    confirmDeleteReciterDownloads: 'Delete all downloads for this reciter?',
+    availableOffline: 'Available offline',
+    storageUsed: 'Storage used / available',
+    loadFailed: "Couldn't load reciters and surahs. Check your connection.",
+    retry: 'Retry',
+    searchReciters: 'Search reciters…',
+    searchSurahs: 'Search by name or number…',
+    noMatches: 'No matches',
+    addFavoriteReciter: 'Add reciter to favourites',
+    removeFavoriteReciter: 'Remove reciter from favourites',
+    recentlyPlayed: 'Recently played',
+    noRecentlyPlayed: 'Recitations you play will appear here',
+    playRecent: 'Continue playing',
+    removeRecent: 'Remove from history',
+    clearRecentlyPlayed: 'Clear',
+    favoriteReciters: 'Favourites',
+    riwaya: 'Riwaya',
+    allRiwayat: 'All riwayat',
+    recitationType: 'Recitation style',
+    allRecitationTypes: 'All styles',
+    recitersFound: '{count} reciters',
+    recitationsTab: 'Recitations',
+    radioTab: 'Radio',
+    radioStations: 'Live radio stations',
+    searchStations: 'Search stations…',
+    live: 'Live',
+    reconnecting: 'Reconnecting…',
+    paused: 'Paused',
+    play: 'Play',
+    pause: 'Pause',
+    stationFailed: 'Could not connect to this station. Please try again.',
+    addFavoriteStation: 'Add station to favourites',
+    removeFavoriteStation: 'Remove station from favourites',
+    tafsir: 'Tafsir',
+    tafsirRecording: 'Tafsir recording',
+    noTafsir: 'No tafsir available for this surah',
+    playTafsir: 'Play tafsir',
+    tafsirAfterEachSurah: 'Play the tafsir after each surah',
+    playingTafsir: 'Playing tafsir',
+    quranText: 'Quran text',
+    quranTextUnavailable: 'The text of this surah could not be loaded',
+    mushafPage: 'Page {page}',
+    seekBar: 'Playback position',
+    timeOfDuration: '{time} of {duration}',
+    volume: 'Volume',
+    mute: 'Mute',
+    unmute: 'Unmute',
+    previousSurah: 'Previous surah',
+    nextSurah: 'Next surah',
+    playPause: 'Play/Pause',
+    continueLastRecitation: 'Continue last recitation',
+    liveBadge: 'LIVE',
+    actionPlaying: 'Playing: {details}',
+    actionPaused: 'Paused: {details}',
+    notifications: 'Notifications',
+    notifyNowPlaying: 'When the next surah starts with the panel closed',
+    notifyErrors: 'When playback fails with the panel closed',
+    nowPlayingNotification: 'Now playing: {title}',
+    playbackFailed: 'Playback failed',
+    playbackFailedMessage: 'The audio could not be loaded. Check your internet connection.',
+    audioUnsupported: 'This recording could not be played.',
+    skip: 'Skip',
   },
   ar: {
     title: 'مشغل القرآن',
@@ -37,6 +295,134 @@ export const translations: Record<Language, Translations> = {
     selectSurah: 'اختر سورة',
     loading: 'جاري التحميل...',
     language: 'اللغة',
+    resumeFrom: 'استئناف من',
+    startOver: 'البدء من جديد',
+    bookmarks: 'العلامات المرجعية',
+    addBookmark: 'حفظ هذا الموضع',
+    bookmarkNotePlaceholder: 'أضف ملاحظة (اختياري)',
+    save: 'حفظ',
+    cancel: 'إلغاء',
+    noBookmarks: 'لا توجد علامات مرجعية بعد',
+    playBookmark: 'التشغيل من العلامة',
+    deleteBookmark: 'حذف العلامة',
+    exportBookmarks: 'تصدير',
+    importBookmarks: 'استيراد',
+    importFailed: 'تعذر استيراد العلامات المرجعية. يرجى التحقق من الملف.',
+    abRepeat: 'تكرار مقطع (أ–ب)',
+    setPointA: 'تعيين أ',
+    setPointB: 'تعيين ب',
+    repeatCount: 'التكرار',
+    repeatForever: 'بلا توقف',
+    pauseBetween: 'توقف',
+    startLoop: 'ابدأ',
+    clearLoop: 'إلغاء',
+    repeatsLeft: 'التكرارات المتبقية',
+    ayah: 'الآية',
+    previousAyah: 'الآية السابقة',
+    nextAyah: 'الآية التالية',
+    repeatAyahs: 'تكرار الآيات',
+    fromAyah: 'من',
+    toAyah: 'إلى',
+    noAyahTiming: 'توقيت الآيات غير متوفر لهذه التلاوة',
+    sleepTimer: 'مؤقت النوم',
+    sleepTimerOff: 'إيقاف',
+    minutes: 'دقيقة',
+    endOfSurah: 'نهاية السورة',
+    afterSurahs: 'بعد {count} سور',
+    surahsLeft: 'السور المتبقية',
+    playbackSpeed: 'سرعة التشغيل',
+    timeRemaining: 'الوقت المتبقي بالسرعة الحالية',
+    playlists: 'قوائم التشغيل',
+    newPlaylist: 'قائمة جديدة',
+    playlistNamePlaceholder: 'اسم القائمة',
+    create: 'إنشاء',
+    noPlaylists: 'لا توجد قوائم تشغيل بعد',
+    emptyPlaylist: 'أضف السورة الحالية لبدء هذه القائمة',
+    playPlaylist: 'تشغيل القائمة',
+    addToPlaylist: 'إضافة السورة الحالية',
+    renamePlaylist: 'إعادة تسمية',
+    deletePlaylist: 'حذف القائمة',
+    confirmDeletePlaylist: 'هل تريد حذف هذه القائمة؟',
+    moveUp: 'نقل لأعلى',
+    moveDown: 'نقل لأسفل',
+    removeFromPlaylist: 'إزالة من القائمة',
+    notInMoshaf: 'غير مسجلة',
+    surahsAvailable: '{count} من {total} سورة مسجلة في هذا المصحف',
+    surahNotInMoshaf: 'سورة {surah} غير متوفرة في {moshaf}. اختر سورة أو مصحفاً آخر.',
+    downloads: 'التنزيلات',
+    downloadSurah: 'تنزيل السورة',
+    downloadMoshaf: 'تنزيل المصحف',
+    noDownloads: 'لم يتم تنزيل أي تلاوة للاستماع دون اتصال بعد',
+    downloadQueued: 'في الانتظار',
+    downloadPaused: 'متوقف مؤقتاً',
+    downloadFailed: 'فشل',
+    pauseDownload: 'إيقاف التنزيل مؤقتاً',
+    resumeDownload: 'استئناف التنزيل',
+    cancelDownload: 'إلغاء التنزيل',
+    deleteDownload: 'حذف التنزيل',
+    deleteReciterDownloads: 'حذف الكل',
+    confirmDeleteReciterDownloads: 'هل تريد حذف جميع تنزيلات هذا القارئ؟',
+    availableOffline: 'متاح دون اتصال',
+    storageUsed: 'المساحة المستخدمة / المتاحة',
+    loadFailed: 'تعذر تحميل القراء والسور. تحقق من اتصالك بالإنترنت.',
+    retry: 'إعادة المحاولة',
+    searchReciters: 'ابحث عن قارئ…',
+    searchSurahs: 'ابحث بالاسم أو الرقم…',
+    noMatches: 'لا توجد نتائج',
+    addFavoriteReciter: 'إضافة القارئ إلى المفضلة',
+    removeFavoriteReciter: 'إزالة القارئ من المفضلة',
+    recentlyPlayed: 'الاستماع مؤخرًا',
+    noRecentlyPlayed: 'ستظهر هنا التلاوات التي تستمع إليها',
+    playRecent: 'متابعة التشغيل',
+    removeRecent: 'إزالة من السجل',
+    clearRecentlyPlayed: 'مسح',
+    favoriteReciters: 'المفضلة',
+    riwaya: 'الرواية',
+    allRiwayat: 'كل الروايات',
+    recitationType: 'نوع التلاوة',
+    allRecitationTypes: 'كل الأنواع',
+    recitersFound: '{count} قارئ',
+    recitationsTab: 'التلاوات',
+    radioTab: 'الإذاعة',
+    radioStations: 'إذاعات مباشرة',
+    searchStations: 'ابحث عن إذاعة…',
+    live: 'مباشر',
+    reconnecting: 'جارٍ إعادة الاتصال…',
+    paused: 'متوقف مؤقتًا',
+    play: 'تشغيل',
+    pause: 'إيقاف مؤقت',
+    stationFailed: 'تعذر الاتصال بهذه الإذاعة. يرجى المحاولة مرة أخرى.',
+    addFavoriteStation: 'إضافة الإذاعة إلى المفضلة',
+    removeFavoriteStation: 'إزالة الإذاعة من المفضلة',
+    tafsir: 'التفسير',
+    tafsirRecording: 'تسجيل التفسير',
+    noTafsir: 'لا يتوفر تفسير لهذه السورة',
+    playTafsir: 'تشغيل التفسير',
+    tafsirAfterEachSurah: 'تشغيل التفسير بعد كل سورة',
+    playingTafsir: 'يتم تشغيل التفسير',
+    quranText: 'نص القرآن',
+    quranTextUnavailable: 'تعذر تحميل نص هذه السورة',
+    mushafPage: 'صفحة {page}',
+    seekBar: 'موضع التشغيل',
+    timeOfDuration: '{time} من {duration}',
+    volume: 'مستوى الصوت',
+    mute: 'كتم الصوت',
+    unmute: 'إلغاء كتم الصوت',
+    previousSurah: 'السورة السابقة',
+    nextSurah: 'السورة التالية',
+    playPause: 'تشغيل/إيقاف مؤقت',
+    continueLastRecitation: 'متابعة آخر تلاوة',
+    liveBadge: 'بث',
+    actionPlaying: 'يعمل الآن: {details}',
+    actionPaused: 'متوقف مؤقتًا: {details}',
+    notifications: 'الإشعارات',
+    notifyNowPlaying: 'عند بدء السورة التالية واللوحة مغلقة',
+    notifyErrors: 'عند تعذر التشغيل واللوحة مغلقة',
+    nowPlayingNotification: 'يعمل الآن: {title}',
+    playbackFailed: 'تعذر التشغيل',
+    playbackFailedMessage: 'تعذر تحميل الصوت. تحقق من اتصالك بالإنترنت.',
+    audioUnsupported: 'تعذر تشغيل هذا التسجيل.',
+    skip: 'تخطي',
   },
 };
 
@@ -44,3 +430,12 @@ export const getTranslation = (lang: Language): Translations => {
   return translations[lang] || translations.en;
 };
 
+
+// The saved UI language, or the browser's when none has been chosen yet
+export async function loadLanguagePreference(): Promise<Language> {
+  const result = await storage.get(['language']);
+  if (result.language === 'ar' || result.language === 'en') {
+    return result.language;
+  }
+  return navigator.language.split('-')[0] === 'ar' ? 'ar' : 'en';
+}
@@ -0,0 +1,137 @@
+/**
+ * Media Session for the offscreen player, so hardware media keys and the browser's
+ * global media controls work with the side panel closed
+ * Names for the metadata are in the panel's language
+ */
+
+import type { AudioState } from './audioService';
+import { getTranslation, loadLanguagePreference } from './i18n';
+import { describeQueueItem } from './nowPlaying';
+
+export interface MediaSessionActions {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  seekTo: (time: number) => void;
+}
+
+// Seconds moved by the seek backward/forward buttons
+const SEEK_OFFSET_SECONDS = 10;
+
+const ARTWORK_SIZES = [16, 48, 128];
+
+const getArtwork = (): MediaImage[] =>
+  ARTWORK_SIZES.map((size) => ({
+    src: chrome.runtime.getURL(`icons/icon${size}.png`),
+    sizes: `${size}x${size}`,
+    type: 'image/png',
+  }));
+
+// Register the action handlers and return a function that mirrors the player state
+// into the session; call it whenever the state changes
+export function createMediaSession(actions: MediaSessionActions): (state: AudioState) => void {
+  if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) {
+    return () => {};
+  }
+  const session = navigator.mediaSession;
+  let metadataKey: string | null = null;
+  let canGoNext: boolean | null = null;
+  let canGoPrevious: boolean | null = null;
+  let isSeekable: boolean | null = null;
+  let latestState: AudioState | null = null;
+
+  const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+    try {
+      session.setActionHandler(action, handler);
+    } catch {
+      // Not supported by this browser version
+    }
+  };
+
+  setHandler('play', () => actions.play());
+  setHandler('pause', () => actions.pause());
+  setHandler('stop', () => actions.pause());
+
+  const updateMetadata = (state: AudioState) => {
+    const key = state.station?.url ?? state.currentItem?.url ?? null;
+    if (key === metadataKey) return;
+    metadataKey = key;
+
+    if (state.station) {
+      const station = state.station;
+      loadLanguagePreference()
+        .then((language) => {
+          if (metadataKey !== key) return;
+          const t = getTranslation(language);
+          session.metadata = new MediaMetadata({ title: station.name, artist: t.radioTab, album: t.live, artwork: getArtwork() });
+        })
+        .catch((error) => console.warn('[MediaSession] Failed to update metadata:', error));
+    } else if (state.currentItem) {
+      const item = state.currentItem;
+      loadLanguagePreference()
+        .then((language) => describeQueueItem(item, language))
+        .then((metadata) => {
+          if (metadataKey === key) {
+            session.metadata = new MediaMetadata({ ...metadata, artwork: getArtwork() });
+          }
+        })
+        .catch((error) => console.warn('[MediaSession] Failed to update metadata:', error));
+    } else {
+      session.metadata = null;
+    }
+  };
+
+  // Only offer the buttons that do something, so the OS controls disable the rest
+  const updateHandlers = (state: AudioState) => {
+    const next = state.queueIndex >= 0 && state.queueIndex < state.queueLength - 1;
+    const previous = state.queueIndex > 0;
+    const seekable = !state.station && state.duration > 0;
+
+    if (next !== canGoNext) {
+      canGoNext = next;
+      setHandler('nexttrack', next ? () => actions.next() : null);
+    }
+    if (previous !== canGoPrevious) {
+      canGoPrevious = previous;
+      setHandler('previoustrack', previous ? () => actions.previous() : null);
+    }
+    if (seekable !== isSeekable) {
+      isSeekable = seekable;
+      const seekBy = (offset: number) => {
+        const current = latestState;
+        if (!current) return;
+        actions.seekTo(Math.min(Math.max(0, current.currentTime + offset), current.duration));
+      };
+      setHandler('seekto', seekable ? (details) => {
+        if (details.seekTime !== undefined) actions.seekTo(details.seekTime);
+      } : null);
+      setHandler('seekbackward', seekable ? (details) => seekBy(-(details.seekOffset ?? SEEK_OFFSET_SECONDS)) : null);
+      setHandler('seekforward', seekable ? (details) => seekBy(details.seekOffset ?? SEEK_OFFSET_SECONDS) : null);
+    }
+  };
+
+  const updatePosition = (state: AudioState) => {
+    try {
+      if (state.station || !(state.duration > 0)) {
+        session.setPositionState();
+      } else {
+        session.setPositionState({
+          duration: state.duration,
+          playbackRate: state.playbackRate,
+          position: Math.min(state.currentTime, state.duration),
+        });
+      }
+    } catch (error) {
+      console.warn('[MediaSession] Failed to update position:', error);
+    }
+  };
+
+  return (state: AudioState) => {
+    latestState = state;
+    updateMetadata(state);
+    updateHandlers(state);
+    session.playbackState = state.isPlaying || state.isReconnecting ? 'playing' : state.currentItem || state.station ? 'paused' : 'none';
+    updatePosition(state);
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Stale-while-revalidate cache for API metadata (reciter and surah lists)
+ * A cached copy is returned right away; once it is older than the TTL it is
+ * refreshed in the background and the caller is handed the fresh data
+ * One cache for every context: the panel uses chrome.storage directly and the offscreen
+ * document reaches the same entries through the background worker
+ * Large content (Quran pages, tafsir) is capped per group, dropping the least recently used
+ */
+
+import { send } from './protocol';
+import { storage } from './storage';
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+// At most maxEntries keys of a group are kept
+export interface CacheLimit {
+  group: string;
+  maxEntries: number;
+}
+
+interface CacheOptions<T> {
+  ttlMs?: number;
+  limit?: CacheLimit;
+  // Called with fresh data after a stale copy was served
+  onRevalidate?: (data: T) => void;
+}
+
+const KEY_PREFIX = 'apiCache:';
+const INDEX_PREFIX = 'apiCacheIndex:';
+export const METADATA_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Last use of each cached key in a group
+type CacheIndex = Record<string, number>;
+
+// Index updates and evictions run one at a time in the background worker, so the panel
+// and the offscreen player can't drop each other's entries from the index
+let pendingIndexWrite: Promise<void> = Promise.resolve();
+
+// Used by the background worker to handle TOUCH_CACHE_ENTRY
+export const cacheIndexWriters = {
+  touch(key: string, limit: CacheLimit): Promise<void> {
+    const write = pendingIndexWrite.then(async () => {
+      const indexKey = `${INDEX_PREFIX}${limit.group}`;
+      const stored = (await storage.get<CacheIndex>([indexKey]))[indexKey];
+      const index: CacheIndex = stored && typeof stored === 'object' ? stored : {};
+      index[key] = Date.now();
+
+      const evicted = Object.keys(index)
+        .sort((a, b) => index[a] - index[b])
+        .slice(0, Math.max(0, Object.keys(index).length - limit.maxEntries));
+      evicted.forEach((evictedKey) => delete index[evictedKey]);
+      if (evicted.length > 0) {
+        await storage.remove(evicted.map((evictedKey) => `${KEY_PREFIX}${evictedKey}`));
+      }
+      await storage.set({ [indexKey]: index });
+    });
+    pendingIndexWrite = write.catch(() => undefined);
+    return write;
+  },
+};
+
+// Record a use of key, evicting the group's least recently used entries past its limit
+async function touchEntry(key: string, limit: CacheLimit): Promise<void> {
+  const response = await send({ type: 'TOUCH_CACHE_ENTRY', key, limit });
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+}
+
+// Resolve with the cached value for key, fetching (and caching) it only when there is none
+// Throws only when nothing is cached and the fetch fails
+export async function getCached<T>(key: string, fetcher: () => Promise<T>, options: CacheOptions<T> = {}): Promise<T> {
+  const { ttlMs = METADATA_TTL_MS, limit, onRevalidate } = options;
+  const storageKey = `${KEY_PREFIX}${key}`;
+  const cached = (await storage.get<CacheEntry<T>>([storageKey]))[storageKey];
+
+  const refresh = async () => {
+    const data = await fetcher();
+    await storage.set({ [storageKey]: { data, fetchedAt: Date.now() } });
+    return data;
+  };
+
+  if (limit) {
+    touchEntry(key, limit).catch((error) => {
+      console.warn(`Failed to update cache index for ${key}:`, error);
+    });
+  }
+
+  if (!cached) {
+    return refresh();
+  }
+
+  if (Date.now() - cached.fetchedAt >= ttlMs) {
+    refresh()
+      .then((data) => onRevalidate?.(data))
+      .catch((error) => {
+        // Offline or API down: keep serving the cached copy
+        console.warn(`Failed to refresh cached ${key}:`, error);
+      });
+  }
+  return cached.data;
+}
@@ -0,0 +1,241 @@
+/**
+ * Client for the mp3quran.net v3 API
+ * Every response is checked before it is handed out: HTTP errors and missing fields
+ * reject with an Mp3QuranApiError, and transient failures are retried with backoff
+ */
+
+import type { Language } from './i18n';
+
+export interface Moshaf {
+  id: number;
+  name: string;
+  server: string;
+  surah_total: number;
+  moshaf_type: number;
+  surah_list: string; // Comma-separated surah ids
+}
+
+export interface Reciter {
+  id: number;
+  name: string;
+  letter: string;
+  date: string;
+  moshaf: Moshaf[];
+}
+
+export interface Surah {
+  id: number;
+  name: string;
+  start_page: number;
+  end_page: number;
+  makkia: number;
+  type: number;
+}
+
+// A moshaf type (riwaya and recitation style) as listed by the moshaf endpoint
+export interface MoshafType {
+  id: number;
+  name: string;
+  moshaf_id: number;
+  moshaf_type: number;
+}
+
+export interface Riwaya {
+  id: number;
+  name: string;
+}
+
+export interface Radio {
+  id: number;
+  name: string;
+  url: string;
+  recent_date: string;
+}
+
+export interface TafsirSurah {
+  id: number;
+  tafsir_id: number;
+  name: string;
+  url: string;
+  sura_id: number;
+}
+
+export interface Tafsir {
+  name: string;
+  soar: TafsirSurah[];
+}
+
+// A recitation with per-ayah timing, identified by its server folder
+export interface AyahTimingRead {
+  id: number;
+  folder_url: string;
+}
+
+export interface AyahTimingEntry {
+  ayah: number;
+  start_time: number; // milliseconds
+  end_time: number; // milliseconds
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface Mp3QuranClientOptions {
+  baseUrl?: string;
+  retries?: number; // Extra attempts after the first for network errors, 429 and 5xx
+  retryDelayMs?: number; // Doubled after every attempt
+}
+
+export const DEFAULT_API_BASE = 'https://www.mp3quran.net/api/v3';
+
+// Rejection for failed API requests; status is null for network errors and malformed responses
+export class Mp3QuranApiError extends Error {
+  constructor(message: string, public readonly url: string, public readonly status: number | null = null) {
+    super(message);
+    this.name = 'Mp3QuranApiError';
+  }
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Resolve after ms, or reject right away when the request is cancelled
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class Mp3QuranClient {
+  private baseUrl: string;
+  private retries: number;
+  private retryDelayMs: number;
+
+  constructor({ baseUrl = DEFAULT_API_BASE, retries = 2, retryDelayMs = 500 }: Mp3QuranClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.retries = retries;
+    this.retryDelayMs = retryDelayMs;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // Point the client at another server (e.g. a local mock)
+  setBaseUrl(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  // GET a path and parse its JSON body, retrying transient failures
+  // Cancellation rejects with the signal's AbortError and is never retried
+  private async request<T>(path: string, params: Record<string, string | number>, options: RequestOptions): Promise<T> {
+    const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, value.toString()]));
+    const url = `${this.baseUrl}${path}${query.toString() ? `?${query}` : ''}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let error: Mp3QuranApiError;
+      try {
+        const response = await fetch(url, { signal: options.signal });
+        if (response.ok) {
+          return (await response.json()) as T;
+        }
+        error = new Mp3QuranApiError(`Request failed (HTTP ${response.status})`, url, response.status);
+        if (!isRetryableStatus(response.status)) {
+          throw error;
+        }
+      } catch (caught) {
+        if (options.signal?.aborted || caught instanceof Mp3QuranApiError) {
+          throw caught;
+        }
+        error = new Mp3QuranApiError(caught instanceof Error ? caught.message : 'Network error', url);
+      }
+
+      if (attempt >= this.retries) {
+        throw error;
+      }
+      console.warn(`[Mp3QuranApi] Retrying ${path} after error:`, error.message);
+      await delay(this.retryDelayMs * 2 ** attempt, options.signal);
+    }
+  }
+
+  // Fetch an endpoint and return one field of its body, which must be present
+  private async requestField<T>(
+    path: string,
+    field: string,
+    params: Record<string, string | number>,
+    options: RequestOptions,
+    isValid: (value: unknown) => boolean = Array.isArray
+  ): Promise<T> {
+    const data = await this.request<Record<string, unknown>>(path, params, options);
+    const value = data?.[field];
+    if (!isValid(value)) {
+      throw new Mp3QuranApiError(`Response is missing ${field}`, `${this.baseUrl}${path}`);
+    }
+    return value as T;
+  }
+
+  getReciters(language: Language, options: RequestOptions = {}): Promise<Reciter[]> {
+    return this.requestField('/reciters', 'reciters', { language }, options);
+  }
+
+  getSuwar(language: Language, options: RequestOptions = {}): Promise<Surah[]> {
+    return this.requestField('/suwar', 'suwar', { language }, options);
+  }
+
+  getMoshafTypes(language: Language, options: RequestOptions = {}): Promise<MoshafType[]> {
+    return this.requestField('/moshaf', 'riwayat', { language }, options);
+  }
+
+  getRiwayat(language: Language, options: RequestOptions = {}): Promise<Riwaya[]> {
+    return this.requestField('/riwayat', 'riwayat', { language }, options);
+  }
+
+  getRadios(language: Language, options: RequestOptions = {}): Promise<Radio[]> {
+    return this.requestField('/radios', 'radios', { language }, options);
+  }
+
+  // Tafsir recordings for a surah from one tafsir (the first by default)
+  getTafsir(language: Language, surahId: number, tafsirId = 1, options: RequestOptions = {}): Promise<Tafsir> {
+    return this.requestField(
+      '/tafasir',
+      'tafasir',
+      { language, sura: surahId, tafsir: tafsirId },
+      options,
+      (value) => typeof value === 'object' && value !== null && Array.isArray((value as Tafsir).soar)
+    );
+  }
+
+  // Recitations that have per-ayah timing data
+  async getAyahTimingReads(options: RequestOptions = {}): Promise<AyahTimingRead[]> {
+    const reads = await this.request<AyahTimingRead[]>('/ayat_timing/reads', {}, options);
+    if (!Array.isArray(reads)) {
+      throw new Mp3QuranApiError('Unexpected timing reads response', `${this.baseUrl}/ayat_timing/reads`);
+    }
+    return reads;
+  }
+
+  async getAyahTimings(surahId: number, readId: number, options: RequestOptions = {}): Promise<AyahTimingEntry[]> {
+    const entries = await this.request<AyahTimingEntry[]>('/ayat_timing', { surah: surahId, read: readId }, options);
+    if (!Array.isArray(entries)) {
+      throw new Mp3QuranApiError('Unexpected ayah timing response', `${this.baseUrl}/ayat_timing`);
+    }
+    return entries;
+  }
+}
+
+// Shared client; VITE_MP3QURAN_API_BASE overrides the server at build time (e.g. a local mock)
+export const mp3quranApi = new Mp3QuranClient({
+  baseUrl: import.meta.env.VITE_MP3QURAN_API_BASE || DEFAULT_API_BASE,
+});
@@ -0,0 +1,104 @@
+/**
+ * Optional desktop notifications for when the side panel is closed: the next surah starting
+ * on auto-advance, and playback errors, with Skip/Retry buttons
+ * The offscreen document can't use chrome.notifications, so it asks the background worker
+ */
+
+import type { QueueItem, RadioStation } from './audioService';
+import { getTranslation, loadLanguagePreference } from './i18n';
+import { describeQueueItem } from './nowPlaying';
+import type { OffscreenEvent } from './protocol';
+import { storage } from './storage';
+
+export interface NotificationSettings {
+  nowPlaying: boolean;
+  errors: boolean;
+}
+
+// The AUDIO_ERROR payload; null when the element reported no details
+export type AudioError = Extract<OffscreenEvent, { type: 'AUDIO_ERROR' }>['error'];
+
+export type PlayerNotification =
+  | { kind: 'nowPlaying'; item: QueueItem; canSkip: boolean }
+  | { kind: 'error'; item: QueueItem | null; station: RadioStation | null; error: AudioError; canSkip: boolean };
+
+// Player actions behind the buttons, forwarded by the background worker like menu items
+export type NotificationAction = 'retry' | 'next-surah';
+
+const STORAGE_KEY = 'notificationSettings';
+
+// One notification of each kind, each replacing the previous one
+const NOW_PLAYING_ID = 'now-playing';
+const ERROR_ID = 'playback-error';
+
+// MediaError.MEDIA_ERR_NETWORK (MediaError isn't defined in the service worker)
+const MEDIA_ERR_NETWORK = 2;
+
+// Buttons by position; Skip is left off when there is nothing to skip to
+const BUTTON_ACTIONS: Record<string, NotificationAction[]> = {
+  [NOW_PLAYING_ID]: ['next-surah'],
+  [ERROR_ID]: ['retry', 'next-surah'],
+};
+
+// Off until turned on in the panel
+export async function getNotificationSettings(): Promise<NotificationSettings> {
+  const result = await storage.get([STORAGE_KEY]);
+  const settings = result[STORAGE_KEY];
+  return {
+    nowPlaying: settings?.nowPlaying === true,
+    errors: settings?.errors === true,
+  };
+}
+
+export async function saveNotificationSettings(settings: NotificationSettings): Promise<void> {
+  await storage.set({ [STORAGE_KEY]: settings });
+}
+
+export function getNotificationAction(notificationId: string, buttonIndex: number): NotificationAction | null {
+  return BUTTON_ACTIONS[notificationId]?.[buttonIndex] ?? null;
+}
+
+// Show a notification if its kind is turned on
+export async function showPlayerNotification(notification: PlayerNotification): Promise<void> {
+  const settings = await getNotificationSettings();
+  if (notification.kind === 'nowPlaying' ? !settings.nowPlaying : !settings.errors) {
+    return;
+  }
+
+  const language = await loadLanguagePreference();
+  const t = getTranslation(language);
+  const iconUrl = chrome.runtime.getURL('icons/icon128.png');
+
+  if (notification.kind === 'nowPlaying') {
+    const { title, artist, album } = await describeQueueItem(notification.item, language);
+    await chrome.notifications.create(NOW_PLAYING_ID, {
+      type: 'basic',
+      iconUrl,
+      title: t.nowPlayingNotification.replace('{title}', title),
+      message: artist,
+      contextMessage: album,
+      buttons: notification.canSkip ? [{ title: t.skip }] : [],
+      silent: true,
+    });
+    return;
+  }
+
+  let source = '';
+  if (notification.station) {
+    source = notification.station.name;
+  } else if (notification.item) {
+    const { title, artist } = await describeQueueItem(notification.item, language);
+    source = `${title} · ${artist}`;
+  }
+  // Without a media error code (e.g. a load timeout) the connection is the likely cause
+  const code = notification.error?.code;
+  await chrome.notifications.create(ERROR_ID, {
+    type: 'basic',
+    iconUrl,
+    title: t.playbackFailed,
+    message: code === undefined || code === MEDIA_ERR_NETWORK ? t.playbackFailedMessage : t.audioUnsupported,
+    contextMessage: source,
+    buttons: notification.canSkip ? [{ title: t.retry }, { title: t.skip }] : [{ title: t.retry }],
+    priority: 1,
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Display names for what the offscreen player is playing, shared by the Media Session
+ * and the toolbar tooltip; both run without the panel, so names come from the metadata cache
+ */
+
+import type { QueueItem } from './audioService';
+import { getTranslation, Language } from './i18n';
+import { getCached } from './metadataCache';
+import { mp3quranApi } from './mp3quranApi';
+
+export interface ItemDescription {
+  title: string;
+  artist: string;
+  album: string;
+}
+
+// Title, artist and album for a queue item, falling back to ids when the lists aren't available
+export async function describeQueueItem(item: QueueItem, language: Language): Promise<ItemDescription> {
+  const t = getTranslation(language);
+  const [reciters, surahs] = await Promise.all([
+    getCached(`reciters:${language}`, () => mp3quranApi.getReciters(language)).catch(() => []),
+    getCached(`suwar:${language}`, () => mp3quranApi.getSuwar(language)).catch(() => []),
+  ]);
+  const reciter = reciters.find((r) => r.id === item.reciterId);
+  const moshaf = reciter?.moshaf.find((m) => m.id === item.moshafId);
+  const surahName = surahs.find((s) => s.id === item.surahId)?.name ?? `${t.surah} ${item.surahId}`;
+
+  if (item.tafsir) {
+    return { title: item.tafsir.name, artist: surahName, album: t.tafsir };
+  }
+  return { title: surahName, artist: reciter?.name ?? t.title, album: moshaf?.name ?? '' };
+}
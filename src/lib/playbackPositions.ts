@@ -0,0 +1,94 @@
+/**
+ * Per-recitation playback positions, keyed by (moshaf, surah)
+ * Written periodically by the offscreen player and read by the side panel to offer resuming
+ * Writes from either go through the background worker, which owns chrome.storage
+ */
+
+import { send } from './protocol';
+import { storage } from './storage';
+
+export interface SavedPosition {
+  time: number;
+  duration: number;
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'playbackPositions';
+
+// Positions this close to the start or end of a surah aren't worth resuming
+export const MIN_RESUME_SECONDS = 10;
+
+const positionKey = (moshafId: number, surahId: number) => `${moshafId}:${surahId}`;
+
+async function loadPositions(): Promise<Record<string, SavedPosition>> {
+  const result = await storage.get([STORAGE_KEY]);
+  const positions = result[STORAGE_KEY];
+  return positions && typeof positions === 'object' ? positions : {};
+}
+
+export async function getSavedPosition(moshafId: number, surahId: number): Promise<SavedPosition | null> {
+  const positions = await loadPositions();
+  return positions[positionKey(moshafId, surahId)] ?? null;
+}
+
+// Read-modify-write updates run one at a time in the background worker, so saves from the
+// offscreen player and clears from the panel can't overwrite each other
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function updatePositions(update: (positions: Record<string, SavedPosition>) => boolean): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const positions = await loadPositions();
+    if (update(positions)) {
+      await storage.set({ [STORAGE_KEY]: positions });
+    }
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+// Returns whether there was a position to remove
+function removePosition(positions: Record<string, SavedPosition>, key: string): boolean {
+  if (!(key in positions)) {
+    return false;
+  }
+  delete positions[key];
+  return true;
+}
+
+// Used by the background worker to handle SAVE_POSITION and CLEAR_POSITION
+export const positionWriters = {
+  save(moshafId: number, surahId: number, time: number, duration: number): Promise<void> {
+    return updatePositions((positions) => {
+      const key = positionKey(moshafId, surahId);
+      // Practically finished - next time start from the beginning
+      if (duration > 0 && duration - time < MIN_RESUME_SECONDS) {
+        return removePosition(positions, key);
+      }
+      positions[key] = { time, duration, updatedAt: Date.now() };
+      return true;
+    });
+  },
+
+  clear(moshafId: number, surahId: number): Promise<void> {
+    return updatePositions((positions) => removePosition(positions, positionKey(moshafId, surahId)));
+  },
+};
+
+export async function clearPosition(moshafId: number, surahId: number): Promise<void> {
+  const response = await send({ type: 'CLEAR_POSITION', moshafId, surahId });
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+}
+
+export async function savePosition(moshafId: number, surahId: number, time: number, duration: number): Promise<void> {
+  // Too early to be worth saving; an existing position is kept until playback moves past it
+  if (!isFinite(time) || time < MIN_RESUME_SECONDS) {
+    return;
+  }
+
+  const response = await send({ type: 'SAVE_POSITION', moshafId, surahId, time, duration });
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * User-defined playlists of (reciter, moshaf, surah) entries
+ * Stored through the storage wrapper and played as a queue by the offscreen player
+ */
+
+import { buildSurahUrl, QueueItem } from './audioService';
+import { storage } from './storage';
+
+export interface PlaylistEntry {
+  id: string;
+  reciterId: number;
+  moshafId: number;
+  surahId: number;
+  server: string; // Moshaf server, so entries play without refetching reciters
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  entries: PlaylistEntry[];
+  createdAt: number;
+}
+
+export type NewPlaylistEntry = Omit<PlaylistEntry, 'id'>;
+
+const STORAGE_KEY = 'playlists';
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function getPlaylists(): Promise<Playlist[]> {
+  const result = await storage.get([STORAGE_KEY]);
+  const playlists = result[STORAGE_KEY];
+  return Array.isArray(playlists) ? playlists : [];
+}
+
+async function savePlaylists(playlists: Playlist[]): Promise<void> {
+  await storage.set({ [STORAGE_KEY]: playlists });
+}
+
+// Apply a change to one playlist and persist the whole list
+async function updatePlaylist(id: string, update: (playlist: Playlist) => Playlist): Promise<Playlist[]> {
+  const playlists = (await getPlaylists()).map((p) => (p.id === id ? update(p) : p));
+  await savePlaylists(playlists);
+  return playlists;
+}
+
+export async function createPlaylist(name: string): Promise<Playlist> {
+  const playlist: Playlist = { id: createId(), name: name.trim(), entries: [], createdAt: Date.now() };
+  await savePlaylists([...(await getPlaylists()), playlist]);
+  return playlist;
+}
+
+export async function renamePlaylist(id: string, name: string): Promise<Playlist[]> {
+  return updatePlaylist(id, (p) => ({ ...p, name: name.trim() }));
+}
+
+export async function deletePlaylist(id: string): Promise<Playlist[]> {
+  const playlists = (await getPlaylists()).filter((p) => p.id !== id);
+  await savePlaylists(playlists);
+  return playlists;
+}
+
+export async function addPlaylistEntry(id: string, entry: NewPlaylistEntry): Promise<Playlist[]> {
+  return updatePlaylist(id, (p) => ({ ...p, entries: [...p.entries, { ...entry, id: createId() }] }));
+}
+
+export async function removePlaylistEntry(id: string, entryId: string): Promise<Playlist[]> {
+  return updatePlaylist(id, (p) => ({ ...p, entries: p.entries.filter((e) => e.id !== entryId) }));
+}
+
+// Move an entry to another position within its playlist
+export async function movePlaylistEntry(id: string, from: number, to: number): Promise<Playlist[]> {
+  return updatePlaylist(id, (p) => {
+    if (from < 0 || from >= p.entries.length || to < 0 || to >= p.entries.length) {
+      return p;
+    }
+    const entries = [...p.entries];
+    const [moved] = entries.splice(from, 1);
+    entries.splice(to, 0, moved);
+    return { ...p, entries };
+  });
+}
+
+export function playlistToQueue(playlist: Playlist): QueueItem[] {
+  return playlist.entries.map((entry) => ({
+    reciterId: entry.reciterId,
+    moshafId: entry.moshafId,
+    surahId: entry.surahId,
+    url: buildSurahUrl(entry.server, entry.surahId),
+  }));
+}
@@ -0,0 +1,187 @@
+// Message protocol shared by the background worker, offscreen document and side panel
+// Every request type maps to its payload and success response, so senders and
+// receivers are checked against the same definition
+
+import type {
+  AudioQueue,
+  AudioState,
+  LoopSettings,
+  QueueItem,
+  RadioStation,
+  SleepTimerSettings,
+  TafsirInterleaveSettings,
+} from './audioService';
+import type { PlayerStatus } from './actionStatus';
+import type { DownloadItem } from './downloads';
+import type { CacheLimit } from './metadataCache';
+import type { PlayerNotification } from './notifications';
+import type { RecentEntry } from './recentlyPlayed';
+
+type EmptyPayload = Record<never, never>;
+
+// The recitation last selected in the panel, read from storage by the background worker
+// for requests that may have to load it
+export type SavedSelection = Pick<QueueItem, 'reciterId' | 'moshafId' | 'surahId'>;
+
+interface MessageSpec<Request = EmptyPayload, Response = EmptyPayload> {
+  request: Request;
+  response: Response;
+}
+
+type RequestMap = Record<string, MessageSpec<object, object>>;
+
+// Requests handled by the offscreen document
+export type OffscreenRequests = {
+  LOAD_AUDIO: MessageSpec<{ url: string }>;
+  PLAY: MessageSpec;
+  PAUSE: MessageSpec;
+  TOGGLE_PLAYBACK: MessageSpec<{ selection?: SavedSelection | null }>;
+  CONTINUE_LAST: MessageSpec<{ selection?: SavedSelection | null }>;
+  RETRY: MessageSpec;
+  SEEK_BY: MessageSpec<{ seconds: number }>;
+  CHANGE_VOLUME: MessageSpec<{ delta: number }>;
+  SET_TIME: MessageSpec<{ time: number }>;
+  SET_VOLUME: MessageSpec<{ volume: number }>;
+  SET_MUTED: MessageSpec<{ muted: boolean }>;
+  SET_PLAYBACK_RATE: MessageSpec<{ playbackRate: number }>;
+  GET_STATE: MessageSpec<EmptyPayload, { state: AudioState }>;
+  SET_QUEUE: MessageSpec<{ items: QueueItem[]; index: number }>;
+  NEXT: MessageSpec;
+  PREVIOUS: MessageSpec;
+  GET_QUEUE: MessageSpec<EmptyPayload, { queue: AudioQueue }>;
+  PLAY_STATION: MessageSpec<{ station: RadioStation }>;
+  SET_TAFSIR_INTERLEAVE: MessageSpec<{ settings: TafsirInterleaveSettings | null }>;
+  SET_LOOP: MessageSpec<{ loop: LoopSettings }>;
+  CLEAR_LOOP: MessageSpec;
+  SET_SLEEP_TIMER: MessageSpec<{ timer: SleepTimerSettings }>;
+  CANCEL_SLEEP_TIMER: MessageSpec;
+  START_DOWNLOADS: MessageSpec<{ items: QueueItem[] }>;
+  PAUSE_DOWNLOAD: MessageSpec<{ url: string }>;
+  RESUME_DOWNLOAD: MessageSpec<{ url: string }>;
+  REMOVE_DOWNLOADS: MessageSpec<{ urls: string[] }>;
+  GET_DOWNLOADS: MessageSpec<EmptyPayload, { downloads: DownloadItem[] }>;
+};
+
+// Requests handled by the background service worker
+export type BackgroundRequests = {
+  CREATE_OFFSCREEN: MessageSpec;
+  // chrome.storage.local for the offscreen document, which can't use it directly
+  STORAGE_GET: MessageSpec<{ keys: string[] }, { values: Record<string, unknown> }>;
+  STORAGE_SET: MessageSpec<{ items: Record<string, unknown> }>;
+  STORAGE_REMOVE: MessageSpec<{ keys: string[] }>;
+  TOUCH_CACHE_ENTRY: MessageSpec<{ key: string; limit: CacheLimit }>;
+  SAVE_POSITION: MessageSpec<{ moshafId: number; surahId: number; time: number; duration: number }>;
+  CLEAR_POSITION: MessageSpec<{ moshafId: number; surahId: number }>;
+  RECORD_RECENT: MessageSpec<{ entry: Omit<RecentEntry, 'playedAt'> }>;
+  REMOVE_RECENT: MessageSpec<{ moshafId: number; surahId: number }, { entries: RecentEntry[] }>;
+  CLEAR_RECENT: MessageSpec;
+  PLAYER_STATUS: MessageSpec<{ status: PlayerStatus }>;
+  SHOW_NOTIFICATION: MessageSpec<{ notification: PlayerNotification }>;
+};
+
+export type RequestMessage<M extends RequestMap, K extends keyof M = keyof M> = {
+  [T in K]: { type: T } & M[T]['request'];
+}[K];
+
+export type ResponseMessage<M extends RequestMap, K extends keyof M> =
+  | ({ success: true } & M[K]['response'])
+  | { success: false; error: string };
+
+export type OffscreenRequest<K extends keyof OffscreenRequests = keyof OffscreenRequests> =
+  RequestMessage<OffscreenRequests, K>;
+export type OffscreenResponse<K extends keyof OffscreenRequests> = ResponseMessage<OffscreenRequests, K>;
+
+export type BackgroundRequest<K extends keyof BackgroundRequests = keyof BackgroundRequests> =
+  RequestMessage<BackgroundRequests, K>;
+export type BackgroundResponse<K extends keyof BackgroundRequests> = ResponseMessage<BackgroundRequests, K>;
+
+// One-way notifications pushed by the offscreen document to connected views
+export type OffscreenEvent =
+  | { type: 'AUDIO_STATE_UPDATE'; state: AudioState }
+  | { type: 'AUDIO_ENDED' }
+  | { type: 'AUDIO_ERROR'; error: { code: number; message: string } | null }
+  | { type: 'DOWNLOADS_UPDATE'; downloads: DownloadItem[] };
+
+// Long-lived port between a view (side panel) and the offscreen document
+// The view sends 'hello' and may only send requests once 'welcome' arrives
+export const AUDIO_PORT_NAME = 'audio-player';
+
+export type PortClientMessage =
+  | { kind: 'hello' }
+  | { kind: 'request'; id: number; request: OffscreenRequest };
+
+export type PortServerMessage =
+  | { kind: 'welcome'; state: AudioState }
+  | { kind: 'response'; id: number; response: OffscreenResponse<keyof OffscreenRequests> }
+  | { kind: 'event'; event: OffscreenEvent };
+
+type AnyRequests = OffscreenRequests & BackgroundRequests;
+
+// Send a typed request and resolve with its typed response
+// Rejects when chrome.runtime reports an error (e.g. no receiver)
+export function send<K extends keyof AnyRequests>(
+  message: RequestMessage<AnyRequests, K>
+): Promise<ResponseMessage<AnyRequests, K>> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, (response) => {
+      const error = chrome.runtime.lastError;
+      if (error) {
+        reject(new Error(error.message || 'Unknown error'));
+      } else if (response === undefined) {
+        // Receiver handled the message without a payload
+        resolve({ success: true } as ResponseMessage<AnyRequests, K>);
+      } else {
+        resolve(response);
+      }
+    });
+  });
+}
+
+export type RequestHandlers<M extends RequestMap> = {
+  [K in keyof M]: (
+    message: RequestMessage<M, K>
+  ) => ResponseMessage<M, K> | Promise<ResponseMessage<M, K>>;
+};
+
+function toErrorResponse(error: unknown): { success: false; error: string } {
+  return { success: false, error: error instanceof Error ? error.message : String(error) };
+}
+
+// Build a function that routes a request to its typed handler and resolves with the response
+export function createRequestHandler<M extends RequestMap>(handlers: RequestHandlers<M>, logPrefix: string) {
+  return async <K extends keyof M>(message: RequestMessage<M, K>): Promise<ResponseMessage<M, K>> => {
+    console.log(`${logPrefix} Received message:`, message.type, message);
+    try {
+      return await handlers[message.type](message);
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+// Check whether a message is a request covered by the given handlers
+export function isRequestFor<M extends RequestMap>(
+  handlers: RequestHandlers<M>,
+  message: { type?: unknown }
+): message is RequestMessage<M> {
+  return typeof message?.type === 'string' && Object.prototype.hasOwnProperty.call(handlers, message.type);
+}
+
+// Build a chrome.runtime.onMessage listener that routes requests to typed handlers
+// Every request type in the map must have a handler; other messages are ignored
+export function createDispatcher<M extends RequestMap>(handlers: RequestHandlers<M>, logPrefix: string) {
+  const handleRequest = createRequestHandler(handlers, logPrefix);
+
+  return (
+    message: { type?: unknown },
+    _sender: chrome.runtime.MessageSender,
+    sendResponse: (response: unknown) => void
+  ): boolean => {
+    if (!isRequestFor(handlers, message)) {
+      return false; // Don't handle unknown messages
+    }
+
+    handleRequest(message).then(sendResponse);
+    return true; // Keep channel open for async response
+  };
+}
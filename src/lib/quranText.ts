@@ -0,0 +1,82 @@
+/**
+ * Uthmani text of the Quran, loaded a mushaf page at a time
+ * A surah's pages come from Surah.start_page/end_page; pages never go stale since the
+ * text never changes, but only the most recently read ones are kept.
+ * The source is pluggable like the ayah timing source
+ */
+
+import { getCached } from './metadataCache';
+import type { RequestOptions, Surah } from './mp3quranApi';
+
+export interface AyahText {
+  surahId: number;
+  ayah: number;
+  text: string;
+  page: number;
+}
+
+export interface QuranTextSource {
+  // Every ayah printed on a mushaf page (1-604), in order
+  getPage(page: number, options?: RequestOptions): Promise<AyahText[]>;
+}
+
+interface QuranComVerse {
+  verse_key: string; // "surah:ayah"
+  text_uthmani: string;
+}
+
+export const DEFAULT_TEXT_API_BASE = 'https://api.quran.com/api/v4';
+
+// Comfortably more than the longest surah (al-Baqarah spans 48 pages)
+const PAGE_CACHE_LIMIT = { group: 'quranPage', maxEntries: 120 };
+
+// Pages from the quran.com API, kept in the metadata cache
+export class QuranComTextSource implements QuranTextSource {
+  constructor(private baseUrl: string = DEFAULT_TEXT_API_BASE) {}
+
+  getPage(page: number, options: RequestOptions = {}): Promise<AyahText[]> {
+    return getCached(`quranPage:${page}`, () => this.fetchPage(page, options), {
+      ttlMs: Infinity,
+      limit: PAGE_CACHE_LIMIT,
+    });
+  }
+
+  private async fetchPage(page: number, options: RequestOptions): Promise<AyahText[]> {
+    const response = await fetch(`${this.baseUrl}/quran/verses/uthmani?page_number=${page}`, { signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to load page ${page} (HTTP ${response.status})`);
+    }
+    const data = await response.json();
+    if (!Array.isArray(data?.verses)) {
+      throw new Error(`Unexpected response for page ${page}`);
+    }
+    return (data.verses as QuranComVerse[]).map((verse) => {
+      const [surahId, ayah] = verse.verse_key.split(':').map((part) => parseInt(part));
+      return { surahId, ayah, text: verse.text_uthmani, page };
+    });
+  }
+}
+
+let textSource: QuranTextSource = new QuranComTextSource();
+
+export function getTextSource(): QuranTextSource {
+  return textSource;
+}
+
+// Swap the text source (e.g. a bundled dataset)
+export function setTextSource(source: QuranTextSource) {
+  textSource = source;
+}
+
+// All ayat of a surah, read from the pages it spans
+export async function getSurahText(
+  surah: Pick<Surah, 'id' | 'start_page' | 'end_page'>,
+  options: RequestOptions = {}
+): Promise<AyahText[]> {
+  const pages: number[] = [];
+  for (let page = surah.start_page; page <= surah.end_page; page++) {
+    pages.push(page);
+  }
+  const results = await Promise.all(pages.map((page) => textSource.getPage(page, options)));
+  return results.flat().filter((ayah) => ayah.surahId === surah.id).sort((a, b) => a.ayah - b.ayah);
+}
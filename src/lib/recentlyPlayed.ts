@@ -0,0 +1,108 @@
+/**
+ * Recently played recitations, newest first, one entry per (moshaf, surah)
+ * Recorded by the offscreen player as playback starts and progresses, so auto-advanced
+ * surahs are included even with the side panel closed; all writes go through the background worker
+ */
+
+import { send } from './protocol';
+import { storage } from './storage';
+
+export interface RecentEntry {
+  reciterId: number;
+  moshafId: number;
+  surahId: number;
+  time: number; // Last known position in seconds
+  playedAt: number;
+}
+
+const RECENTLY_PLAYED_KEY = 'recentlyPlayed';
+const MAX_ENTRIES = 20;
+
+function isRecentEntry(value: unknown): value is RecentEntry {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    Number.isInteger(candidate.reciterId) &&
+    Number.isInteger(candidate.moshafId) &&
+    Number.isInteger(candidate.surahId) &&
+    typeof candidate.time === 'number' &&
+    isFinite(candidate.time) &&
+    candidate.time >= 0 &&
+    typeof candidate.playedAt === 'number'
+  );
+}
+
+function toRecentEntries(value: unknown): RecentEntry[] {
+  return Array.isArray(value) ? value.filter(isRecentEntry) : [];
+}
+
+export async function getRecentlyPlayed(): Promise<RecentEntry[]> {
+  const result = await storage.get([RECENTLY_PLAYED_KEY]);
+  return toRecentEntries(result[RECENTLY_PLAYED_KEY]);
+}
+
+// Writes run one at a time in the background worker, so quick successive updates (e.g. pause
+// then ended) land in order and the panel's removals don't race the player's records
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function updateEntries(update: (entries: RecentEntry[]) => RecentEntry[]): Promise<RecentEntry[]> {
+  const write = pendingWrite.then(async () => {
+    const updated = update(await getRecentlyPlayed());
+    await storage.set({ [RECENTLY_PLAYED_KEY]: updated });
+    return updated;
+  });
+  pendingWrite = write.then(() => undefined, () => undefined);
+  return write;
+}
+
+// Used by the background worker to handle RECORD_RECENT, REMOVE_RECENT and CLEAR_RECENT
+export const recentWriters = {
+  // Move the recitation to the top of the list with its latest position
+  record(entry: Omit<RecentEntry, 'playedAt'>): Promise<RecentEntry[]> {
+    return updateEntries((entries) => {
+      const others = entries.filter(
+        (existing) => existing.moshafId !== entry.moshafId || existing.surahId !== entry.surahId
+      );
+      return [{ ...entry, playedAt: Date.now() }, ...others].slice(0, MAX_ENTRIES);
+    });
+  },
+
+  remove(moshafId: number, surahId: number): Promise<RecentEntry[]> {
+    return updateEntries((entries) =>
+      entries.filter((entry) => entry.moshafId !== moshafId || entry.surahId !== surahId)
+    );
+  },
+
+  clear(): Promise<RecentEntry[]> {
+    return updateEntries(() => []);
+  },
+};
+
+export async function recordRecentlyPlayed(entry: Omit<RecentEntry, 'playedAt'>): Promise<void> {
+  const response = await send({ type: 'RECORD_RECENT', entry });
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+}
+
+export async function removeRecentlyPlayed(moshafId: number, surahId: number): Promise<RecentEntry[]> {
+  const response = await send({ type: 'REMOVE_RECENT', moshafId, surahId });
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+  return response.entries;
+}
+
+export async function clearRecentlyPlayed(): Promise<void> {
+  const response = await send({ type: 'CLEAR_RECENT' });
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+}
+
+// Keep a list in sync with writes from the offscreen player
+export function onRecentlyPlayedChanged(listener: (entries: RecentEntry[]) => void): () => void {
+  return storage.onChanged(RECENTLY_PLAYED_KEY, (value) => listener(toRecentEntries(value)));
+}
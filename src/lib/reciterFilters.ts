@@ -0,0 +1,79 @@
+/**
+ * Narrowing the reciter list by riwaya (Hafs, Warsh, ...) and recitation style (murattal, mujawwad, ...)
+ * A moshaf's moshaf_type is the id of an entry in the API's moshaf list, which gives its riwaya
+ * (moshaf_id, matching the riwayat list) and its style (that entry's own moshaf_type)
+ */
+
+import type { Moshaf, MoshafType, Reciter, Riwaya } from './mp3quranApi';
+import { storage } from './storage';
+
+export interface ReciterFilter {
+  riwayaId: number | null;
+  recitationType: number | null;
+}
+
+export interface RecitationTypeOption {
+  id: number;
+  name: string;
+}
+
+export const EMPTY_RECITER_FILTER: ReciterFilter = { riwayaId: null, recitationType: null };
+
+const STORAGE_KEY = 'reciterFilter';
+
+export const isFilterActive = (filter: ReciterFilter) =>
+  filter.riwayaId !== null || filter.recitationType !== null;
+
+// Moshaf types keyed by id, for looking up a moshaf's moshaf_type
+export function indexMoshafTypes(moshafTypes: MoshafType[]): Map<number, MoshafType> {
+  return new Map(moshafTypes.map((type) => [type.id, type]));
+}
+
+// Riwayat that at least one moshaf type belongs to, in the API's order
+export function getAvailableRiwayat(riwayat: Riwaya[], moshafTypes: MoshafType[]): Riwaya[] {
+  const used = new Set(moshafTypes.map((type) => type.moshaf_id));
+  return riwayat.filter((riwaya) => used.has(riwaya.id));
+}
+
+// Distinct recitation styles; the API has no list of them, so each is named after the style
+// part of a moshaf type name ("حفص عن عاصم - مرتل" -> "مرتل")
+export function getRecitationTypes(moshafTypes: MoshafType[]): RecitationTypeOption[] {
+  const types = new Map<number, string>();
+  moshafTypes.forEach((type) => {
+    if (!types.has(type.moshaf_type)) {
+      const parts = type.name.split(' - ');
+      types.set(type.moshaf_type, parts[parts.length - 1].trim());
+    }
+  });
+  return Array.from(types, ([id, name]) => ({ id, name })).sort((a, b) => a.id - b.id);
+}
+
+// Moshafs of unknown type only match when no filter is set
+export function moshafMatchesFilter(moshaf: Moshaf, filter: ReciterFilter, types: Map<number, MoshafType>): boolean {
+  if (!isFilterActive(filter)) return true;
+  const type = types.get(moshaf.moshaf_type);
+  if (!type) return false;
+  return (
+    (filter.riwayaId === null || type.moshaf_id === filter.riwayaId) &&
+    (filter.recitationType === null || type.moshaf_type === filter.recitationType)
+  );
+}
+
+// Reciters with at least one matching moshaf
+export function filterReciters(reciters: Reciter[], filter: ReciterFilter, types: Map<number, MoshafType>): Reciter[] {
+  if (!isFilterActive(filter)) return reciters;
+  return reciters.filter((reciter) => reciter.moshaf.some((moshaf) => moshafMatchesFilter(moshaf, filter, types)));
+}
+
+export async function getReciterFilter(): Promise<ReciterFilter> {
+  const result = await storage.get([STORAGE_KEY]);
+  const filter = result[STORAGE_KEY];
+  return {
+    riwayaId: Number.isInteger(filter?.riwayaId) ? filter.riwayaId : null,
+    recitationType: Number.isInteger(filter?.recitationType) ? filter.recitationType : null,
+  };
+}
+
+export async function saveReciterFilter(filter: ReciterFilter): Promise<void> {
+  await storage.set({ [STORAGE_KEY]: filter });
+}
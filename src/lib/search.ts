@@ -0,0 +1,91 @@
+/**
+ * Text matching for the reciter and surah pickers
+ * Arabic is compared without tashkeel and with alef/hamza/yaa/taa marbuta forms folded together;
+ * Latin is compared without accents, case or punctuation, so "al-kahf", "Al Kahf" and "kahf" all match
+ */
+
+// Harakat, Quranic annotation marks, superscript alef and tatweel
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+const LATIN_ACCENTS = /[\u0300-\u036F]/g;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(LATIN_ACCENTS, '')
+    .replace(ARABIC_MARKS, '')
+    .replace(ARABIC_INDIC_DIGITS, (digit) => (digit.charCodeAt(0) & 0x0f).toString())
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/[ئى]/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ء/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export interface SearchEntry<T> {
+  item: T;
+  number?: number; // e.g. the surah number, matched by digit queries
+  texts: string[]; // Name first, then alternatives such as the other language's name
+}
+
+export interface IndexedEntry<T> {
+  item: T;
+  number?: string;
+  texts: string[];
+  compact: string[];
+}
+
+const compact = (text: string) => text.replace(/ /g, '');
+
+// Pre-normalise entries once so each keystroke only compares strings
+export function buildSearchIndex<T>(entries: SearchEntry<T>[]): IndexedEntry<T>[] {
+  return entries.map((entry) => {
+    const texts = entry.texts.map(normalizeSearchText);
+    return {
+      item: entry.item,
+      number: entry.number?.toString(),
+      texts,
+      compact: texts.map(compact),
+    };
+  });
+}
+
+// Lower is better; null when the entry doesn't match
+function rank<T>(entry: IndexedEntry<T>, query: string): number | null {
+  if (/^\d+$/.test(query) && entry.number !== undefined) {
+    if (entry.number === query) return 0;
+    if (entry.number.startsWith(query)) return 1;
+  }
+
+  const compactQuery = compact(query);
+  let best: number | null = null;
+  for (let index = 0; index < entry.texts.length; index++) {
+    const text = entry.texts[index];
+    let score: number | null = null;
+    if (text.startsWith(query)) score = 2;
+    else if (` ${text}`.includes(` ${query}`)) score = 3;
+    else if (entry.compact[index].includes(compactQuery)) score = 4;
+    if (score === null) continue;
+
+    // Alternatives (e.g. transliterations) rank after the displayed name
+    score += index === 0 ? 0 : 3;
+    if (best === null || score < best) best = score;
+  }
+  return best;
+}
+
+// Items matching the query, best matches first (all items, in order, for an empty query)
+export function search<T>(index: IndexedEntry<T>[], query: string): T[] {
+  const normalized = normalizeSearchText(query);
+  if (!normalized) {
+    return index.map((entry) => entry.item);
+  }
+  return index
+    .map((entry, position) => ({ entry, position, score: rank(entry, normalized) }))
+    .filter((result): result is { entry: IndexedEntry<T>; position: number; score: number } => result.score !== null)
+    .sort((a, b) => a.score - b.score || a.position - b.position)
+    .map((result) => result.entry.item);
+}
@@ -1,11 +1,19 @@
 /**
  * Storage utility that works in both browser and Chrome extension
  * Uses localStorage in browser, chrome.storage in extension
+ * The offscreen document has no chrome.storage, so it goes through the background worker
  */
 
+import { send } from './protocol';
+
+type ChangeListener = (changes: Record<string, any>) => void;
+
 interface StorageAdapter {
   get(keys: string[]): Promise<Record<string, any>>;
   set(items: Record<string, any>): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  // Listen for new values written (possibly by another context); returns an unsubscribe function
+  subscribe(listener: ChangeListener): () => void;
 }
 
 class ChromeStorageAdapter implements StorageAdapter {
@@ -20,6 +28,21 @@ class ChromeStorageAdapter implements StorageAdapter {
       chrome.storage.local.set(items, resolve);
     });
   }
+
+  async remove(keys: string[]): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.local.remove(keys, resolve);
+    });
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    const handleChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName !== 'local') return;
+      listener(Object.fromEntries(Object.entries(changes).map(([key, change]) => [key, change.newValue])));
+    };
+    chrome.storage.onChanged.addListener(handleChanged);
+    return () => chrome.storage.onChanged.removeListener(handleChanged);
+  }
 }
 
 class LocalStorageAdapter implements StorageAdapter {
@@ -38,22 +61,83 @@ class LocalStorageAdapter implements StorageAdapter {
     return result;
   }
 
+  private listeners: Set<ChangeListener> = new Set();
+
   async set(items: Record<string, any>): Promise<void> {
     Object.entries(items).forEach(([key, value]) => {
       localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
     });
+    this.listeners.forEach((listener) => listener(items));
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    keys.forEach((key) => localStorage.removeItem(key));
+    const removed = Object.fromEntries(keys.map((key) => [key, undefined]));
+    this.listeners.forEach((listener) => listener(removed));
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// chrome.storage.local of the background worker, for extension pages that can only use chrome.runtime
+// Listeners only hear writes made from this page
+class RuntimeStorageAdapter implements StorageAdapter {
+  private listeners: Set<ChangeListener> = new Set();
+
+  async get(keys: string[]): Promise<Record<string, any>> {
+    const response = await send({ type: 'STORAGE_GET', keys });
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+    return response.values;
+  }
+
+  async set(items: Record<string, any>): Promise<void> {
+    const response = await send({ type: 'STORAGE_SET', items });
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+    this.listeners.forEach((listener) => listener(items));
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    const response = await send({ type: 'STORAGE_REMOVE', keys });
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+    const removed = Object.fromEntries(keys.map((key) => [key, undefined]));
+    this.listeners.forEach((listener) => listener(removed));
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 }
 
 // Detect if we're in a Chrome extension
 function isChromeExtension(): boolean {
-  return typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local;
+  return typeof chrome !== 'undefined' && !!chrome.storage && !!chrome.storage.local;
+}
+
+// An extension page without chrome.storage (the offscreen document)
+function isRuntimeOnlyPage(): boolean {
+  return typeof chrome !== 'undefined' && !!chrome.runtime?.id;
 }
 
 // Create the appropriate adapter
 const storageAdapter: StorageAdapter = isChromeExtension()
   ? new ChromeStorageAdapter()
-  : new LocalStorageAdapter();
+  : isRuntimeOnlyPage()
+    ? new RuntimeStorageAdapter()
+    : new LocalStorageAdapter();
 
 export const storage = {
   async get<T = any>(keys: string[]): Promise<Record<string, T>> {
@@ -63,5 +147,18 @@ export const storage = {
   async set(items: Record<string, any>): Promise<void> {
     return storageAdapter.set(items);
   },
+
+  async remove(keys: string[]): Promise<void> {
+    return storageAdapter.remove(keys);
+  },
+
+  // Call listener with the new value whenever key is written
+  onChanged<T = any>(key: string, listener: (value: T | undefined) => void): () => void {
+    return storageAdapter.subscribe((changes) => {
+      if (key in changes) {
+        listener(changes[key]);
+      }
+    });
+  },
 };
 
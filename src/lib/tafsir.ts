@@ -0,0 +1,46 @@
+/**
+ * Tafsir (audio commentary) recordings for a surah, and queue entries to play them
+ * Used by the side panel to play a tafsir on its own and by the offscreen player to
+ * follow recitations with their tafsir
+ */
+
+import type { QueueItem } from './audioService';
+import type { Language } from './i18n';
+import { getCached } from './metadataCache';
+import { mp3quranApi, RequestOptions, Tafsir } from './mp3quranApi';
+
+// The API's default tafsir
+export const DEFAULT_TAFSIR_ID = 1;
+
+// Recording lists of the most recently used surahs, across tafsirs and languages
+const TAFSIR_CACHE_LIMIT = { group: 'tafsir', maxEntries: 60 };
+
+export function getSurahTafsir(
+  language: Language,
+  surahId: number,
+  tafsirId = DEFAULT_TAFSIR_ID,
+  options: RequestOptions = {}
+): Promise<Tafsir> {
+  return getCached(
+    `tafsir:${language}:${tafsirId}:${surahId}`,
+    () => mp3quranApi.getTafsir(language, surahId, tafsirId, options),
+    { limit: TAFSIR_CACHE_LIMIT }
+  );
+}
+
+// Queue entries for the surah's tafsir recordings, in order
+// The recitation context keeps the reciter and moshaf selected while they play
+export function tafsirToQueue(
+  tafsir: Tafsir,
+  recitation: Pick<QueueItem, 'reciterId' | 'moshafId' | 'surahId'>
+): QueueItem[] {
+  return tafsir.soar
+    .filter((recording) => Number(recording.sura_id) === recitation.surahId && recording.url)
+    .map((recording) => ({
+      reciterId: recitation.reciterId,
+      moshafId: recitation.moshafId,
+      surahId: recitation.surahId,
+      url: recording.url,
+      tafsir: { id: recording.id, tafsirId: recording.tafsir_id, name: recording.name },
+    }));
+}
@@ -1,39 +1,292 @@
 // Offscreen document for audio playback
 // This allows audio to continue playing even when the side panel is closed
 
+import { buildSurahUrl } from './lib/audioService';
+import type { AudioState, QueueItem, RadioStation, SleepTimerSettings, TafsirInterleaveSettings } from './lib/audioService';
+import { toPlayerStatus } from './lib/actionStatus';
+import { DownloadManager } from './lib/downloadManager';
+import { getDownloadedAudio } from './lib/downloads';
+import { createMediaSession } from './lib/mediaSession';
+import { loadLanguagePreference } from './lib/i18n';
+import { getCached } from './lib/metadataCache';
+import type { AudioError, PlayerNotification } from './lib/notifications';
+import { mp3quranApi } from './lib/mp3quranApi';
+import { clearPosition, getSavedPosition, savePosition } from './lib/playbackPositions';
+import { recordRecentlyPlayed } from './lib/recentlyPlayed';
+import { getSurahTafsir, tafsirToQueue } from './lib/tafsir';
+import {
+  AUDIO_PORT_NAME,
+  createDispatcher,
+  createRequestHandler,
+  OffscreenEvent,
+  OffscreenRequests,
+  OffscreenResponse,
+  PortClientMessage,
+  PortServerMessage,
+  RequestHandlers,
+  SavedSelection,
+  send,
+} from './lib/protocol';
+import { storage } from './lib/storage';
+
 let audio: HTMLAudioElement | null = null;
-let currentState: {
-  isPlaying: boolean;
-  currentTime: number;
-  duration: number;
-  volume: number;
-  isMuted: boolean;
-  url: string | null;
-} = {
+let currentUrl: string | null = null;
+// Object URL of a downloaded copy currently playing in place of currentUrl
+let localSourceUrl: string | null = null;
+const currentState: AudioState = {
   isPlaying: false,
   currentTime: 0,
   duration: 0,
   volume: 1.0,
   isMuted: false,
-  url: null,
+  playbackRate: 1,
+  queueIndex: -1,
+  queueLength: 0,
+  currentItem: null,
+  loop: null,
+  sleepTimer: null,
+  station: null,
+  isReconnecting: false,
+  tafsirInterleave: null,
 };
 
-// Load volume preference on initialization
-if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-  chrome.storage.local.get(['volume']).then((result) => {
-    if (result.volume !== undefined) {
-      const savedVolume = parseFloat(result.volume);
-      if (!isNaN(savedVolume) && savedVolume >= 0 && savedVolume <= 1) {
-        currentState.volume = savedVolume;
-      }
-    }
-  }).catch((error) => {
-    console.warn('[Offscreen] Failed to load volume preference:', error);
+// Views (side panels) connected over a long-lived port; state is only pushed to these
+const connectedPorts = new Set<chrome.runtime.Port>();
+
+// Playback queue - lives here so auto-advance works with the side panel closed
+let queue: QueueItem[] = [];
+
+// How often the playback position is persisted while playing
+const POSITION_SAVE_INTERVAL_MS = 5000;
+let lastPositionSave = 0;
+
+// Persist the position of the current queue item so it can be resumed later
+function persistPosition() {
+  const item = currentState.currentItem;
+  // Positions and history are kept for recitations only
+  if (!audio || !item || item.tafsir || currentUrl !== item.url) {
+    return;
+  }
+  lastPositionSave = Date.now();
+  savePosition(item.moshafId, item.surahId, audio.currentTime, currentState.duration).catch((error) => {
+    console.warn('[Offscreen] Failed to save playback position:', error);
+  });
+  recordRecent(audio.currentTime);
+}
+
+// Put the current queue item at the top of the recently played list
+function recordRecent(time: number) {
+  const item = currentState.currentItem;
+  if (!item || item.tafsir || currentUrl !== item.url) {
+    return;
+  }
+  const { reciterId, moshafId, surahId } = item;
+  recordRecentlyPlayed({ reciterId, moshafId, surahId, time: isFinite(time) ? time : 0 }).catch((error) => {
+    console.warn('[Offscreen] Failed to record recently played:', error);
   });
-} else {
-  console.warn('[Offscreen] Chrome storage API not available');
 }
 
+// Replace the queue and/or move the current position, keeping currentState in sync
+function setQueuePosition(items: QueueItem[], index: number) {
+  queue = items;
+  currentState.queueIndex = index;
+  currentState.queueLength = items.length;
+  currentState.currentItem = items[index] ?? null;
+}
+
+// A–B repeat - enforced here so it keeps running with the side panel closed
+const MIN_LOOP_SECONDS = 0.5;
+const MAX_LOOP_PAUSE_SECONDS = 60;
+let loopGapTimer: ReturnType<typeof setTimeout> | null = null;
+
+function cancelLoopGap(): boolean {
+  if (!loopGapTimer) {
+    return false;
+  }
+  clearTimeout(loopGapTimer);
+  loopGapTimer = null;
+  return true;
+}
+
+function clearLoop() {
+  cancelLoopGap();
+  currentState.loop = null;
+}
+
+// Jump back to A, resuming playback if the element stopped (pause gap or end of file)
+function restartLoop() {
+  loopGapTimer = null;
+  if (!audio || !currentState.loop) {
+    return;
+  }
+  audio.currentTime = currentState.loop.start;
+  if (audio.paused) {
+    audio.play().catch((error) => {
+      console.error('[Offscreen] Failed to restart loop:', error);
+    });
+  }
+}
+
+// Called when playback reaches B (or the end of the file)
+// Returns true when the loop took over, false when playback should continue normally
+function handleLoopBoundary(): boolean {
+  const loop = currentState.loop;
+  if (!audio || !loop) {
+    return false;
+  }
+  if (loopGapTimer) {
+    return true; // Already waiting to repeat
+  }
+  
+  if (loop.remaining !== null && loop.remaining <= 0) {
+    // Final repetition done - carry on with the rest of the surah
+    currentState.loop = null;
+    broadcastState();
+    return false;
+  }
+  
+  currentState.loop = {
+    ...loop,
+    remaining: loop.remaining === null ? null : loop.remaining - 1,
+  };
+  
+  if (loop.pauseSeconds > 0) {
+    audio.pause();
+    loopGapTimer = setTimeout(restartLoop, loop.pauseSeconds * 1000);
+  } else {
+    restartLoop();
+  }
+  broadcastState();
+  return true;
+}
+
+// Sleep timer - lives here so it survives closing the side panel
+const SLEEP_FADE_SECONDS = 30;
+const SLEEP_TICK_MS = 1000;
+let sleepTimer: { settings: SleepTimerSettings; endsAt: number | null; remainingSurahs: number | null } | null = null;
+let sleepTickInterval: ReturnType<typeof setInterval> | null = null;
+let fadeFactor = 1;
+
+// Apply volume, mute and any sleep fade to the audio element
+function applyVolume() {
+  if (audio) {
+    audio.volume = currentState.isMuted ? 0 : currentState.volume * fadeFactor;
+  }
+}
+
+// Seconds until the sleep timer stops playback, or null when more than one surah is left
+function getSleepRemainingSeconds(): number | null {
+  if (!sleepTimer) {
+    return null;
+  }
+  if (sleepTimer.endsAt !== null) {
+    return Math.max(0, (sleepTimer.endsAt - Date.now()) / 1000);
+  }
+  if (sleepTimer.remainingSurahs === 1 && currentState.duration > 0) {
+    return Math.max(0, (currentState.duration - currentState.currentTime) / currentState.playbackRate);
+  }
+  return null;
+}
+
+function updateSleepTimerState() {
+  currentState.sleepTimer = sleepTimer ? {
+    settings: sleepTimer.settings,
+    remainingSeconds: getSleepRemainingSeconds(),
+    remainingSurahs: sleepTimer.remainingSurahs,
+  } : null;
+}
+
+function cancelSleepTimer() {
+  sleepTimer = null;
+  if (sleepTickInterval) {
+    clearInterval(sleepTickInterval);
+    sleepTickInterval = null;
+  }
+  fadeFactor = 1;
+  applyVolume();
+  updateSleepTimerState();
+}
+
+// Stop playback for the night and put the volume back for next time
+function finishSleepTimer() {
+  console.log('[Offscreen] Sleep timer finished, pausing playback');
+  stationWanted = false;
+  cancelLoopGap();
+  audio?.pause();
+  cancelSleepTimer();
+  broadcastState();
+}
+
+function tickSleepTimer() {
+  const remaining = getSleepRemainingSeconds();
+  if (remaining !== null && remaining <= 0) {
+    finishSleepTimer();
+    return;
+  }
+  
+  // Gradually lower the volume over the last stretch
+  fadeFactor = remaining !== null && remaining < SLEEP_FADE_SECONDS ? remaining / SLEEP_FADE_SECONDS : 1;
+  applyVolume();
+  updateSleepTimerState();
+  broadcastState();
+}
+
+// Called when a surah finishes; returns true when the sleep timer ends playback here
+function consumeSleepTimerSurah(): boolean {
+  if (!sleepTimer || sleepTimer.remainingSurahs === null) {
+    return false;
+  }
+  if (sleepTimer.remainingSurahs <= 1) {
+    finishSleepTimer();
+    return true;
+  }
+  sleepTimer.remainingSurahs -= 1;
+  updateSleepTimerState();
+  return false;
+}
+
+// Supported playback speeds
+const MIN_PLAYBACK_RATE = 0.5;
+const MAX_PLAYBACK_RATE = 2;
+
+// Apply the playback speed; defaultPlaybackRate keeps it across loading new surahs
+function applyPlaybackRate() {
+  if (audio) {
+    audio.defaultPlaybackRate = currentState.playbackRate;
+    audio.playbackRate = currentState.playbackRate;
+  }
+}
+
+const isValidPlaybackRate = (rate: number) =>
+  isFinite(rate) && rate >= MIN_PLAYBACK_RATE && rate <= MAX_PLAYBACK_RATE;
+
+const isValidTafsirInterleave = (settings: TafsirInterleaveSettings | null): boolean =>
+  settings === null ||
+  (Number.isInteger(settings?.tafsirId) && (settings.language === 'en' || settings.language === 'ar'));
+
+// Load volume, speed and tafsir preferences on initialization
+storage.get(['volume', 'playbackRate', 'tafsirInterleave']).then((result) => {
+  if (result.volume !== undefined) {
+    const savedVolume = parseFloat(result.volume);
+    if (!isNaN(savedVolume) && savedVolume >= 0 && savedVolume <= 1) {
+      currentState.volume = savedVolume;
+      applyVolume();
+    }
+  }
+  if (result.playbackRate !== undefined) {
+    const savedRate = parseFloat(result.playbackRate);
+    if (isValidPlaybackRate(savedRate)) {
+      currentState.playbackRate = savedRate;
+      applyPlaybackRate();
+    }
+  }
+  if (result.tafsirInterleave && isValidTafsirInterleave(result.tafsirInterleave)) {
+    currentState.tafsirInterleave = result.tafsirInterleave;
+  }
+}).catch((error) => {
+  console.warn('[Offscreen] Failed to load audio preferences:', error);
+});
+
 // Create audio element
 function createAudioElement() {
   if (audio) {
@@ -42,29 +295,55 @@ function createAudioElement() {
   
   audio = new Audio();
   audio.preload = 'auto';
-  audio.volume = currentState.volume;
+  audio.volume = currentState.volume * fadeFactor;
+  // Speed changes shouldn't make the reciter sound higher or lower
+  audio.preservesPitch = true;
+  audio.defaultPlaybackRate = currentState.playbackRate;
+  audio.playbackRate = currentState.playbackRate;
   
   // Event listeners
   audio.addEventListener('play', () => {
     currentState.isPlaying = true;
+    recordRecent(audio?.currentTime ?? 0);
     broadcastState();
   });
   
+  audio.addEventListener('playing', () => {
+    if (currentState.station) {
+      handleStationPlaying();
+    }
+  });
+
+  // A live stream waiting for data for too long has most likely dropped
+  audio.addEventListener('waiting', () => {
+    if (currentState.station) {
+      watchStationStall();
+    }
+  });
+
   audio.addEventListener('pause', () => {
     currentState.isPlaying = false;
+    persistPosition();
     broadcastState();
   });
   
   audio.addEventListener('timeupdate', () => {
     if (audio) {
       currentState.currentTime = audio.currentTime;
+      if (currentState.loop && audio.currentTime >= currentState.loop.end && handleLoopBoundary()) {
+        return;
+      }
+      if (currentState.isPlaying && Date.now() - lastPositionSave >= POSITION_SAVE_INTERVAL_MS) {
+        persistPosition();
+      }
       broadcastState();
     }
   });
   
   audio.addEventListener('loadedmetadata', () => {
     if (audio) {
-      currentState.duration = audio.duration;
+      // Live streams report an infinite duration
+      currentState.duration = isFinite(audio.duration) ? audio.duration : 0;
       broadcastState();
     }
   });
@@ -77,225 +356,796 @@ function createAudioElement() {
   });
   
   audio.addEventListener('ended', async () => {
+    // A live stream only ends when the connection drops
+    if (currentState.station) {
+      scheduleStationReconnect();
+      return;
+    }
+
+    // A loop whose B point is the end of the file repeats instead of advancing
+    if (handleLoopBoundary()) {
+      return;
+    }
+    
     if (audio) {
       currentState.isPlaying = false;
       currentState.currentTime = 0;
       broadcastState();
       
+      // Finished surahs start from the beginning next time
+      const finishedItem = currentState.currentItem;
+      if (finishedItem && !finishedItem.tafsir) {
+        clearPosition(finishedItem.moshafId, finishedItem.surahId).catch((error) => {
+          console.warn('[Offscreen] Failed to clear playback position:', error);
+        });
+        recordRecent(0);
+      }
+      
       // Notify background script about track ending
-      chrome.runtime.sendMessage({
-        type: 'AUDIO_ENDED'
-      });
+      broadcast({ type: 'AUDIO_ENDED' });
+
+      // The sleep timer may end playback with this surah (a tafsir belongs to the surah before it)
+      if (!finishedItem?.tafsir && consumeSleepTimerSurah()) {
+        return;
+      }
+
+      if (finishedItem && !finishedItem.tafsir && currentState.tafsirInterleave) {
+        await queueTafsirAfter(finishedItem, currentState.tafsirInterleave);
+      }
+
+      // Auto-advance to the next queue item
+      if (currentState.queueIndex < queue.length - 1) {
+        const result = await playQueueItem(currentState.queueIndex + 1, true);
+        if (!result.success) {
+          console.error('[Offscreen] Failed to auto-advance:', result.error);
+          // A media error has already been reported by the error listener
+          if (!audio?.error) {
+            notifyPlaybackError(null);
+          }
+        } else if (currentState.currentItem) {
+          notifyIfPanelClosed({ kind: 'nowPlaying', item: currentState.currentItem, canSkip: canSkip() });
+        }
+      }
     }
   });
   
   audio.addEventListener('error', () => {
     console.error('Audio error:', audio?.error);
-    chrome.runtime.sendMessage({
-      type: 'AUDIO_ERROR',
-      error: audio?.error ? {
-        code: audio.error.code,
-        message: audio.error.message
-      } : null
-    });
+    if (currentState.station && stationWanted) {
+      scheduleStationReconnect();
+      return;
+    }
+    const error = audio?.error ? {
+      code: audio.error.code,
+      message: audio.error.message
+    } : null;
+    broadcast({ type: 'AUDIO_ERROR', error });
+    notifyPlaybackError(error);
   });
   
   return audio;
 }
 
-// Broadcast current state to all listeners
+// Push an event to every connected view
+function broadcast(event: OffscreenEvent) {
+  connectedPorts.forEach((port) => {
+    const message: PortServerMessage = { kind: 'event', event };
+    port.postMessage(message);
+  });
+}
+
+// Mirrors the state into the Media Session; set up once the request handlers exist
+let syncMediaSession: (state: AudioState) => void = () => {};
+
+// Broadcast current state to all listeners (and the OS media controls)
+// The background worker mirrors this into the toolbar badge; only changes are sent
+let lastPlayerStatus = '';
+
+function reportPlayerStatus() {
+  const status = toPlayerStatus(currentState);
+  const key = JSON.stringify(status);
+  if (key === lastPlayerStatus) {
+    return;
+  }
+  lastPlayerStatus = key;
+  send({ type: 'PLAYER_STATUS', status }).catch((error) => {
+    console.warn('[Offscreen] Failed to report player status:', error);
+  });
+}
+
+// Desktop notifications only stand in for the panel while it's closed
+function notifyIfPanelClosed(notification: PlayerNotification) {
+  if (connectedPorts.size > 0) {
+    return;
+  }
+  send({ type: 'SHOW_NOTIFICATION', notification }).catch((error) => {
+    console.warn('[Offscreen] Failed to show notification:', error);
+  });
+}
+
+const canSkip = () => currentState.queueIndex < queue.length - 1;
+
+function notifyPlaybackError(error: AudioError) {
+  notifyIfPanelClosed({
+    kind: 'error',
+    item: currentState.station ? null : currentState.currentItem,
+    station: currentState.station,
+    error,
+    canSkip: !currentState.station && canSkip(),
+  });
+}
+
 function broadcastState() {
-  chrome.runtime.sendMessage({
+  syncMediaSession({ ...currentState });
+  reportPlayerStatus();
+  if (connectedPorts.size === 0) {
+    return;
+  }
+
+  broadcast({
     type: 'AUDIO_STATE_UPDATE',
-    state: {
-      isPlaying: currentState.isPlaying,
-      currentTime: currentState.currentTime,
-      duration: currentState.duration,
-      volume: currentState.volume,
-      isMuted: currentState.isMuted,
-    }
+    state: { ...currentState }
   });
 }
 
-// Handle messages from background script or side panel
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  console.log('[Offscreen] Received message:', message.type, message);
-  
-  switch (message.type) {
-    case 'LOAD_AUDIO': {
-      const { url } = message;
-      if (!url) {
-        sendResponse({ success: false, error: 'No URL provided' });
-        return false;
+type LoadResult = OffscreenResponse<'LOAD_AUDIO'>;
+
+// Prefer a downloaded copy of the URL, falling back to streaming it
+async function resolveSource(url: string): Promise<string> {
+  try {
+    const blob = await getDownloadedAudio(url);
+    if (blob) {
+      console.log('[Offscreen] Playing downloaded copy of', url);
+      return URL.createObjectURL(blob);
+    }
+  } catch (error) {
+    console.warn('[Offscreen] Failed to read downloaded copy:', error);
+  }
+  return url;
+}
+
+// Load a URL into the audio element, resolving once it can play
+async function loadUrl(url: string): Promise<LoadResult> {
+  const audioElement = createAudioElement();
+
+  // If same URL, don't reload
+  if (currentUrl === url && audioElement.src) {
+    return { success: true };
+  }
+
+  currentUrl = url;
+  clearLoop();
+  currentState.isPlaying = false;
+  currentState.currentTime = 0;
+  currentState.duration = 0;
+
+  audioElement.pause();
+  const source = await resolveSource(url);
+  if (currentUrl !== url) {
+    // Another load started while the downloaded copy was being read
+    if (source !== url) {
+      URL.revokeObjectURL(source);
+    }
+    return { success: false, error: 'Load superseded' };
+  }
+  if (localSourceUrl) {
+    URL.revokeObjectURL(localSourceUrl);
+  }
+  localSourceUrl = source !== url ? source : null;
+  audioElement.src = source;
+
+  return new Promise((resolve) => {
+    // Track if we've already resolved
+    let hasResolved = false;
+    const safeResolve = (result: LoadResult) => {
+      if (!hasResolved) {
+        hasResolved = true;
+        resolve(result);
       }
-      
-      const audioElement = createAudioElement();
-      
-      // If same URL, don't reload
-      if (currentState.url === url && audioElement.src === url) {
-        sendResponse({ success: true });
-        return false;
+    };
+
+    // Wait for audio to load before resolving
+    const handleCanPlay = () => {
+      audioElement.removeEventListener('canplay', handleCanPlay);
+      audioElement.removeEventListener('error', handleError);
+      safeResolve({ success: true });
+    };
+
+    const handleError = () => {
+      audioElement.removeEventListener('canplay', handleCanPlay);
+      audioElement.removeEventListener('error', handleError);
+      safeResolve({ success: false, error: 'Failed to load audio' });
+    };
+
+    audioElement.addEventListener('canplay', handleCanPlay);
+    audioElement.addEventListener('error', handleError);
+    audioElement.load();
+
+    // Timeout after 5 seconds
+    setTimeout(() => {
+      audioElement.removeEventListener('canplay', handleCanPlay);
+      audioElement.removeEventListener('error', handleError);
+      // If we haven't resolved yet, succeed only if enough data is buffered
+      if (audioElement.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+        safeResolve({ success: true });
+      } else {
+        safeResolve({ success: false, error: 'Audio load timeout' });
       }
-      
-      currentState.url = url;
-      currentState.isPlaying = false;
-      currentState.currentTime = 0;
-      
-      audioElement.pause();
-      audioElement.src = url;
-      
-      // Track if we've already responded
-      let hasResponded = false;
-      const safeSendResponse = (response: any) => {
-        if (!hasResponded) {
-          hasResponded = true;
-          sendResponse(response);
-        }
-      };
-      
-      // Wait for audio to load before responding
-      const handleCanPlay = () => {
-        audioElement.removeEventListener('canplay', handleCanPlay);
-        audioElement.removeEventListener('error', handleError);
-        safeSendResponse({ success: true });
-      };
-      
-      const handleError = () => {
-        audioElement.removeEventListener('canplay', handleCanPlay);
-        audioElement.removeEventListener('error', handleError);
-        safeSendResponse({ success: false, error: 'Failed to load audio' });
-      };
-      
-      audioElement.addEventListener('canplay', handleCanPlay);
-      audioElement.addEventListener('error', handleError);
-      audioElement.load();
-      
-      // Timeout after 5 seconds
-      setTimeout(() => {
-        audioElement.removeEventListener('canplay', handleCanPlay);
-        audioElement.removeEventListener('error', handleError);
-        // If we haven't responded yet, send a success (audio might still be loading)
-        if (audioElement.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
-          safeSendResponse({ success: true });
-        } else {
-          safeSendResponse({ success: false, error: 'Audio load timeout' });
-        }
-      }, 5000);
-      
-      return true; // Keep channel open for async response
+    }, 5000);
+  });
+}
+
+// Persist the current queue item so the side panel restores it on reopen
+// Tafsir recordings aren't a selection the pickers can show, so they're skipped
+function saveCurrentItem(item: QueueItem) {
+  if (item.tafsir) return;
+  storage.set({
+    reciterId: item.reciterId.toString(),
+    moshafId: item.moshafId.toString(),
+    surahId: item.surahId.toString(),
+  }).catch((error) => {
+    console.warn('[Offscreen] Failed to save current item:', error);
+  });
+}
+
+// Move to a queue item, optionally starting playback once loaded
+async function playQueueItem(index: number, autoplay: boolean): Promise<LoadResult> {
+  const item = queue[index];
+  if (!item) {
+    return { success: false, error: 'Invalid queue index' };
+  }
+
+  setQueuePosition(queue, index);
+  saveCurrentItem(item);
+  broadcastState();
+
+  const result = await loadUrl(item.url);
+  if (result.success && autoplay) {
+    try {
+      await createAudioElement().play();
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to play audio' };
+    }
+  }
+  broadcastState();
+  return result;
+}
+
+// Insert the surah's tafsir after the current queue item, unless it is already there
+async function queueTafsirAfter(item: QueueItem, settings: TafsirInterleaveSettings) {
+  const index = currentState.queueIndex;
+  const next = queue[index + 1];
+  if (next?.tafsir && next.surahId === item.surahId) {
+    return;
+  }
+  try {
+    const tafsir = await getSurahTafsir(settings.language, item.surahId, settings.tafsirId);
+    const items = tafsirToQueue(tafsir, item);
+    // The queue may have been replaced while the tafsir was loading
+    if (items.length === 0 || queue[index] !== item) {
+      return;
+    }
+    setQueuePosition([...queue.slice(0, index + 1), ...items, ...queue.slice(index + 1)], index);
+    broadcastState();
+  } catch (error) {
+    console.warn('[Offscreen] Failed to load tafsir, continuing without it:', error);
+  }
+}
+
+// Load the surah last selected in the panel, e.g. when nothing is loaded after a browser restart
+// (its moshaf server comes from the cached reciter list) at its saved position
+async function restoreSavedItem(selection: SavedSelection | null | undefined): Promise<LoadResult> {
+  if (!selection) {
+    return { success: false, error: 'Nothing to play yet' };
+  }
+  const { reciterId, moshafId, surahId } = selection;
+
+  const language = await loadLanguagePreference();
+  const reciters = await getCached(`reciters:${language}`, () => mp3quranApi.getReciters(language));
+  const moshaf = reciters.find((r) => r.id === reciterId)?.moshaf.find((m) => m.id === moshafId);
+  if (!moshaf?.server) {
+    return { success: false, error: 'Saved recitation not found' };
+  }
+
+  stopStation();
+  setQueuePosition([{ reciterId, moshafId, surahId, url: buildSurahUrl(moshaf.server, surahId) }], 0);
+  const result = await playQueueItem(0, false);
+  const position = await getSavedPosition(moshafId, surahId).catch(() => null);
+  if (result.success && audio && position) {
+    audio.currentTime = position.time;
+  }
+  return result;
+}
+
+// Skip to another queue item, continuing playback if we were already playing
+function skipTo(index: number): Promise<LoadResult> | LoadResult {
+  if (index < 0 || index >= queue.length) {
+    return { success: false, error: 'No more items in queue' };
+  }
+  return playQueueItem(index, currentState.isPlaying);
+}
+
+// Live radio - streams are reopened with backoff when they drop, until the listener pauses
+const RECONNECT_BASE_DELAY_MS = 2000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const STALL_TIMEOUT_MS = 15000;
+let stationWanted = false;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let stallTimer: ReturnType<typeof setTimeout> | null = null;
+
+function clearStationTimers() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (stallTimer) {
+    clearTimeout(stallTimer);
+    stallTimer = null;
+  }
+}
+
+// Drop the station when a recitation is loaded in its place
+function stopStation() {
+  stationWanted = false;
+  reconnectAttempts = 0;
+  clearStationTimers();
+  currentState.station = null;
+  currentState.isReconnecting = false;
+}
+
+// Reopen the stream from the live edge
+async function openStation(): Promise<LoadResult> {
+  const station = currentState.station;
+  if (!audio || !station) {
+    return { success: false, error: 'No station loaded' };
+  }
+  audio.src = station.url;
+  audio.load();
+  try {
+    await audio.play();
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to play station' };
+  }
+}
+
+function scheduleStationReconnect() {
+  if (!currentState.station || !stationWanted || reconnectTimer) {
+    return;
+  }
+  if (stallTimer) {
+    clearTimeout(stallTimer);
+    stallTimer = null;
+  }
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+  reconnectAttempts++;
+  console.warn(`[Offscreen] Stream dropped, reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
+  currentState.isReconnecting = true;
+  broadcastState();
+
+  reconnectTimer = setTimeout(async () => {
+    reconnectTimer = null;
+    if (!stationWanted) {
+      return;
+    }
+    const result = await openStation();
+    if (!result.success) {
+      scheduleStationReconnect();
+    }
+  }, delay);
+}
+
+function watchStationStall() {
+  if (!stationWanted || stallTimer || reconnectTimer) {
+    return;
+  }
+  stallTimer = setTimeout(() => {
+    stallTimer = null;
+    scheduleStationReconnect();
+  }, STALL_TIMEOUT_MS);
+}
+
+function handleStationPlaying() {
+  reconnectAttempts = 0;
+  clearStationTimers();
+  if (currentState.isReconnecting) {
+    currentState.isReconnecting = false;
+    broadcastState();
+  }
+}
+
+// Replace the queue with a live station and start playing it
+async function playStation(station: RadioStation): Promise<LoadResult> {
+  const isSameStation = currentState.station?.url === station.url && currentUrl === station.url;
+  stopStation();
+  setQueuePosition([], -1);
+  currentState.station = station;
+  stationWanted = true;
+  broadcastState();
+
+  if (isSameStation) {
+    return openStation();
+  }
+
+  const result = await loadUrl(station.url);
+  if (!result.success) {
+    // Never connected, so there is nothing to reconnect to; let the listener pick again
+    stopStation();
+    broadcastState();
+    return result;
+  }
+  try {
+    await createAudioElement().play();
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to play station' };
+  }
+}
+
+// Offline downloads - run here so they continue with the side panel closed
+const downloadManager = new DownloadManager((downloads) => {
+  broadcast({ type: 'DOWNLOADS_UPDATE', downloads });
+});
+downloadManager.init().catch((error) => {
+  console.warn('[Offscreen] Failed to load downloads:', error);
+});
+
+// Requests from the background script or side panel
+const handlers: RequestHandlers<OffscreenRequests> = {
+  LOAD_AUDIO: ({ url }) => {
+    if (!url) {
+      return { success: false, error: 'No URL provided' };
     }
     
-    case 'PLAY': {
-      const audioElement = createAudioElement();
-      if (!currentState.url && !audioElement.src) {
-        sendResponse({ success: false, error: 'No audio loaded' });
-        return false;
-      }
-      
-      audioElement.play()
-        .then(() => {
-          sendResponse({ success: true });
-        })
-        .catch((error) => {
-          sendResponse({ success: false, error: error.message });
-        });
-      
-      return true; // Keep channel open for async response
+    // A bare URL replaces whatever queue or station was playing
+    stopStation();
+    setQueuePosition([], -1);
+    return loadUrl(url);
+  },
+  
+  PLAY: async () => {
+    const audioElement = createAudioElement();
+    if (!currentUrl && !audioElement.src) {
+      return { success: false, error: 'No audio loaded' };
     }
     
-    case 'PAUSE': {
-      if (audio) {
-        audio.pause();
-        sendResponse({ success: true });
-      } else {
-        sendResponse({ success: false, error: 'Audio not initialized' });
-      }
-      return false;
+    // Resuming a station jumps back to the live broadcast
+    if (currentState.station) {
+      stationWanted = true;
+      reconnectAttempts = 0;
+      clearStationTimers();
+      return openStation();
     }
     
-    case 'SET_TIME': {
-      const { time } = message;
-      if (audio && isFinite(time) && time >= 0) {
-        audio.currentTime = time;
-        currentState.currentTime = time;
-        sendResponse({ success: true });
-      } else {
-        sendResponse({ success: false, error: 'Invalid time' });
-      }
-      return false;
+    // Playing during a repeat pause starts the next repetition right away
+    if (cancelLoopGap() && currentState.loop) {
+      audioElement.currentTime = currentState.loop.start;
     }
     
-    case 'SET_VOLUME': {
-      const { volume } = message;
-      if (isFinite(volume) && volume >= 0 && volume <= 1) {
-        currentState.volume = volume;
-        if (audio) {
-          audio.volume = volume;
-        }
-        if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-          chrome.storage.local.set({ volume: volume.toString() }).catch((error) => {
-            console.warn('[Offscreen] Failed to save volume:', error);
-          });
-        }
-        sendResponse({ success: true });
-      } else {
-        sendResponse({ success: false, error: 'Invalid volume' });
+    try {
+      await audioElement.play();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to play audio' };
+    }
+  },
+  
+  TOGGLE_PLAYBACK: async ({ selection }) => {
+    // A repeat pause counts as playing, so toggling holds at A instead of repeating early
+    if (currentState.isPlaying || currentState.isReconnecting || loopGapTimer) {
+      return handlers.PAUSE({ type: 'PAUSE' });
+    }
+    if (!currentUrl) {
+      const restored = await restoreSavedItem(selection);
+      if (!restored.success) {
+        return restored;
       }
-      return false;
     }
-    
-    case 'SET_MUTED': {
-      const { muted } = message;
-      currentState.isMuted = muted;
-      if (audio) {
-        audio.volume = muted ? 0 : currentState.volume;
+    return handlers.PLAY({ type: 'PLAY' });
+  },
+  
+  // Resume the loaded recitation, or load the last one (replacing a station)
+  CONTINUE_LAST: async ({ selection }) => {
+    if (!currentUrl || currentState.station) {
+      const restored = await restoreSavedItem(selection);
+      if (!restored.success) {
+        return restored;
       }
-      sendResponse({ success: true });
-      return false;
+    }
+    return handlers.PLAY({ type: 'PLAY' });
+  },
+  
+  // Reload what failed to play: the station, or the current queue item
+  RETRY: () => {
+    if (currentState.station) {
+      return playStation(currentState.station);
+    }
+    if (currentState.queueIndex < 0) {
+      return { success: false, error: 'Nothing to retry' };
+    }
+    return playQueueItem(currentState.queueIndex, true);
+  },
+  
+  SEEK_BY: ({ seconds }) => {
+    if (currentState.station) {
+      return { success: false, error: 'Live streams cannot be seeked' };
+    }
+    if (!audio || !currentUrl || !isFinite(seconds)) {
+      return { success: false, error: 'No audio loaded' };
+    }
+    const end = currentState.duration > 0 ? currentState.duration : audio.currentTime + Math.max(0, seconds);
+    return handlers.SET_TIME({ type: 'SET_TIME', time: Math.min(Math.max(0, audio.currentTime + seconds), end) });
+  },
+  
+  CHANGE_VOLUME: ({ delta }) => {
+    if (!isFinite(delta)) {
+      return { success: false, error: 'Invalid volume change' };
+    }
+    // Turning the volume up unmutes, like the panel's slider
+    const from = currentState.isMuted ? 0 : currentState.volume;
+    const volume = Math.round(Math.min(1, Math.max(0, from + delta)) * 100) / 100;
+    currentState.isMuted = false;
+    const result = handlers.SET_VOLUME({ type: 'SET_VOLUME', volume });
+    broadcastState();
+    return result;
+  },
+  
+  PAUSE: () => {
+    if (!audio) {
+      return { success: false, error: 'Audio not initialized' };
+    }
+    // Pausing during a repeat pause holds at A rather than B
+    if (cancelLoopGap() && currentState.loop) {
+      audio.currentTime = currentState.loop.start;
+    }
+    if (currentState.station) {
+      stationWanted = false;
+      clearStationTimers();
+      currentState.isReconnecting = false;
+    }
+    audio.pause();
+    return { success: true };
+  },
+  
+  SET_TIME: ({ time }) => {
+    if (currentState.station) {
+      return { success: false, error: 'Live streams cannot be seeked' };
+    }
+    if (!audio || !isFinite(time) || time < 0) {
+      return { success: false, error: 'Invalid time' };
+    }
+    cancelLoopGap();
+    audio.currentTime = time;
+    currentState.currentTime = time;
+    return { success: true };
+  },
+  
+  SET_VOLUME: ({ volume }) => {
+    if (!isFinite(volume) || volume < 0 || volume > 1) {
+      return { success: false, error: 'Invalid volume' };
+    }
+    currentState.volume = volume;
+    applyVolume();
+    storage.set({ volume: volume.toString() }).catch((error) => {
+      console.warn('[Offscreen] Failed to save volume:', error);
+    });
+    return { success: true };
+  },
+  
+  SET_MUTED: ({ muted }) => {
+    currentState.isMuted = muted;
+    applyVolume();
+    return { success: true };
+  },
+  
+  SET_PLAYBACK_RATE: ({ playbackRate }) => {
+    if (!isValidPlaybackRate(playbackRate)) {
+      return { success: false, error: 'Invalid playback rate' };
+    }
+    currentState.playbackRate = playbackRate;
+    applyPlaybackRate();
+    storage.set({ playbackRate: playbackRate.toString() }).catch((error) => {
+      console.warn('[Offscreen] Failed to save playback rate:', error);
+    });
+    broadcastState();
+    return { success: true };
+  },
+  
+  GET_STATE: () => ({ success: true, state: { ...currentState } }),
+  
+  SET_QUEUE: ({ items, index }) => {
+    if (!Array.isArray(items) || items.length === 0 || !items[index]) {
+      return { success: false, error: 'Invalid queue' };
     }
     
-    case 'GET_STATE': {
-      sendResponse({
-        success: true,
-        state: {
-          isPlaying: currentState.isPlaying,
-          currentTime: currentState.currentTime,
-          duration: currentState.duration,
-          volume: currentState.volume,
-          isMuted: currentState.isMuted,
-        }
-      });
-      return false;
+    stopStation();
+    setQueuePosition(items, index);
+    return playQueueItem(index, false);
+  },
+  
+  NEXT: () => skipTo(currentState.queueIndex + 1),
+  
+  PREVIOUS: () => skipTo(currentState.queueIndex - 1),
+  
+  GET_QUEUE: () => ({
+    success: true,
+    queue: { items: queue, index: currentState.queueIndex }
+  }),
+  
+  SET_TAFSIR_INTERLEAVE: ({ settings }) => {
+    if (!isValidTafsirInterleave(settings)) {
+      return { success: false, error: 'Invalid tafsir setting' };
+    }
+    currentState.tafsirInterleave = settings;
+    storage.set({ tafsirInterleave: settings }).catch((error) => {
+      console.warn('[Offscreen] Failed to save tafsir setting:', error);
+    });
+    broadcastState();
+    return { success: true };
+  },
+  
+  PLAY_STATION: ({ station }) => {
+    if (!station || typeof station.url !== 'string' || !station.url) {
+      return { success: false, error: 'Invalid station' };
+    }
+    return playStation(station);
+  },
+  
+  SET_LOOP: ({ loop }) => {
+    const { start, repeatCount, pauseSeconds } = loop;
+    const duration = currentState.duration;
+    const end = duration > 0 ? Math.min(loop.end, duration) : loop.end;
+    
+    if (!audio || !currentUrl) {
+      return { success: false, error: 'No audio loaded' };
+    }
+    if (currentState.station) {
+      return { success: false, error: 'Live streams cannot be repeated' };
+    }
+    if (!isFinite(start) || !isFinite(end) || start < 0 || end - start < MIN_LOOP_SECONDS) {
+      return { success: false, error: 'Invalid loop range' };
     }
+    if (repeatCount !== null && (!Number.isInteger(repeatCount) || repeatCount < 1)) {
+      return { success: false, error: 'Invalid repeat count' };
+    }
+    if (!isFinite(pauseSeconds) || pauseSeconds < 0 || pauseSeconds > MAX_LOOP_PAUSE_SECONDS) {
+      return { success: false, error: 'Invalid pause between repetitions' };
+    }
+    
+    cancelLoopGap();
+    currentState.loop = {
+      start,
+      end,
+      repeatCount,
+      pauseSeconds,
+      remaining: repeatCount === null ? null : repeatCount - 1,
+    };
     
-    case 'PING':
-      // Simple ping to check if offscreen is ready
-      console.log('[Offscreen] PING received, responding');
-      sendResponse({ success: true, ready: true });
-      return false;
+    // The first repetition starts from A
+    audio.currentTime = start;
+    currentState.currentTime = start;
+    broadcastState();
+    return { success: true };
+  },
+  
+  // Clearing during a repeat pause drops the pending restart, leaving playback paused
+  CLEAR_LOOP: () => {
+    clearLoop();
+    broadcastState();
+    return { success: true };
+  },
+  
+  SET_SLEEP_TIMER: ({ timer }) => {
+    if (timer.mode === 'duration' && (!isFinite(timer.minutes) || timer.minutes <= 0)) {
+      return { success: false, error: 'Invalid sleep timer duration' };
+    }
+    if (timer.mode === 'afterSurahs' && (!Number.isInteger(timer.count) || timer.count < 1)) {
+      return { success: false, error: 'Invalid number of surahs' };
+    }
     
-    default:
-      return false; // Don't handle unknown messages
+    cancelSleepTimer();
+    sleepTimer = {
+      settings: timer,
+      endsAt: timer.mode === 'duration' ? Date.now() + timer.minutes * 60 * 1000 : null,
+      remainingSurahs: timer.mode === 'endOfSurah' ? 1 : timer.mode === 'afterSurahs' ? timer.count : null,
+    };
+    sleepTickInterval = setInterval(tickSleepTimer, SLEEP_TICK_MS);
+    tickSleepTimer();
+    return { success: true };
+  },
+  
+  CANCEL_SLEEP_TIMER: () => {
+    cancelSleepTimer();
+    broadcastState();
+    return { success: true };
+  },
+  
+  START_DOWNLOADS: ({ items }) => {
+    if (!Array.isArray(items) || items.length === 0) {
+      return { success: false, error: 'Nothing to download' };
+    }
+    downloadManager.start(items);
+    return { success: true };
+  },
+  
+  PAUSE_DOWNLOAD: ({ url }) =>
+    downloadManager.pause(url) ? { success: true } : { success: false, error: 'Download is not in progress' },
+  
+  RESUME_DOWNLOAD: ({ url }) =>
+    downloadManager.resume(url) ? { success: true } : { success: false, error: 'Download is not paused' },
+  
+  REMOVE_DOWNLOADS: async ({ urls }) => {
+    await downloadManager.remove(urls);
+    return { success: true };
+  },
+  
+  GET_DOWNLOADS: () => ({ success: true, downloads: downloadManager.list() }),
+};
+
+// Hardware media keys and the browser's media controls drive the same handlers as the panel
+const logActionFailure = (action: string) => (response: { success: boolean; error?: string }) => {
+  if (!response.success) {
+    console.warn(`[Offscreen] Media session ${action} failed:`, response.error);
   }
+};
+
+syncMediaSession = createMediaSession({
+  play: () => {
+    Promise.resolve(handlers.PLAY({ type: 'PLAY' })).then(logActionFailure('play'));
+  },
+  pause: () => {
+    Promise.resolve(handlers.PAUSE({ type: 'PAUSE' })).then(logActionFailure('pause'));
+  },
+  next: () => {
+    Promise.resolve(skipTo(currentState.queueIndex + 1)).then(logActionFailure('next'));
+  },
+  previous: () => {
+    Promise.resolve(skipTo(currentState.queueIndex - 1)).then(logActionFailure('previous'));
+  },
+  seekTo: (time) => {
+    Promise.resolve(handlers.SET_TIME({ type: 'SET_TIME', time })).then(logActionFailure('seek'));
+    broadcastState();
+  },
 });
 
-// Initialize audio element
-createAudioElement();
-console.log('[Offscreen] Audio element created, offscreen document ready');
+// One-off messages (e.g. forwarded by the background script)
+chrome.runtime.onMessage.addListener(createDispatcher(handlers, '[Offscreen]'));
 
-// Notify that offscreen document is ready
-chrome.runtime.sendMessage({
-  type: 'OFFSCREEN_READY'
-}).then(() => {
-  console.log('[Offscreen] Ready notification sent');
-}).catch((err) => {
-  console.warn('[Offscreen] Failed to send ready notification:', err);
-});
+// Side panel connections: handshake, then request/response and pushed events
+const handleRequest = createRequestHandler(handlers, '[Offscreen]');
 
-// Broadcast state periodically (every 250ms for smooth updates)
-setInterval(() => {
-  if (audio && currentState.isPlaying) {
-    broadcastState();
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== AUDIO_PORT_NAME) {
+    return;
   }
-}, 250);
+  
+  const reply = (message: PortServerMessage) => port.postMessage(message);
+  
+  port.onMessage.addListener((message: PortClientMessage) => {
+    switch (message.kind) {
+      case 'hello':
+        connectedPorts.add(port);
+        console.log('[Offscreen] View connected, total:', connectedPorts.size);
+        reply({ kind: 'welcome', state: { ...currentState } });
+        break;
+      
+      case 'request':
+        handleRequest(message.request).then((response) => {
+          if (connectedPorts.has(port)) {
+            reply({ kind: 'response', id: message.id, response });
+          }
+        });
+        break;
+    }
+  });
+  
+  port.onDisconnect.addListener(() => {
+    connectedPorts.delete(port);
+    console.log('[Offscreen] View disconnected, total:', connectedPorts.size);
+  });
+});
 
+// Initialize audio element
+createAudioElement();
+console.log('[Offscreen] Audio element created, offscreen document ready');
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the mp3quran v3 API, e.g. a local mock server
+  readonly VITE_MP3QURAN_API_BASE?: string;
+}